@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Lock, BookOpen, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { formatExamDateTime, getExamWindowStatus } from '@/lib/exam-window';
+import { parseProctoringPolicy } from '@/lib/proctoring-policy';
 import type { Exam } from '@/pages/Index';
 
 interface AccessCodeEntryProps {
@@ -30,27 +33,15 @@ const AccessCodeEntry: React.FC<AccessCodeEntryProps> = ({ onSuccess }) => {
     setIsLoading(true);
 
     try {
-      console.log('Searching for access code:', accessCode.toUpperCase());
-      
-      // Let's debug what's in the database first
-      const { data: allExams, error: allExamsError } = await supabase
-        .from('exams')
-        .select('*');
-      
-      console.log('All exams in database:', allExams);
-      console.log('All exams error:', allExamsError);
-
-      // Fetch the specific exam
+      // Students can only read an active exam, and only by sending its access code
       const { data: exam, error } = await supabase
         .from('exams')
         .select('*')
         .eq('access_code', accessCode.toUpperCase())
         .eq('status', 'active')
+        .setHeader('x-access-code', accessCode.toUpperCase())
         .maybeSingle();
 
-      console.log('Query result - exam:', exam);
-      console.log('Query result - error:', error);
-
       if (error) {
         console.error('Database error:', error);
         toast({
@@ -62,36 +53,14 @@ const AccessCodeEntry: React.FC<AccessCodeEntryProps> = ({ onSuccess }) => {
       }
 
       if (!exam) {
-        // Check if the exam exists but with different status
-        const { data: examAnyStatus, error: statusError } = await supabase
-          .from('exams')
-          .select('*')
-          .eq('access_code', accessCode.toUpperCase())
-          .maybeSingle();
-
-        console.log('Exam with any status:', examAnyStatus);
-
-        if (examAnyStatus) {
-          toast({
-            title: "Exam Not Available",
-            description: `Exam found but status is: ${examAnyStatus.status}`,
-            variant: "destructive"
-          });
-        } else {
-          toast({
-            title: "Invalid Access Code",
-            description: "No exam found with this access code. Please check and try again.",
-            variant: "destructive"
-          });
-        }
+        toast({
+          title: "Invalid Access Code",
+          description: "No open exam was found with this access code. Please check and try again.",
+          variant: "destructive"
+        });
         return;
       }
 
-      toast({
-        title: "Access Granted",
-        description: `Welcome to ${exam.name}`,
-      });
-
       // Convert database exam to frontend format
       const examData: Exam = {
         id: exam.id,
@@ -99,9 +68,40 @@ const AccessCodeEntry: React.FC<AccessCodeEntryProps> = ({ onSuccess }) => {
         topic: exam.topic,
         accessCode: exam.access_code,
         duration: exam.duration_minutes || 60, // Default 60 minutes
-        status: exam.status
+        status: exam.status,
+        opensAt: exam.opens_at,
+        closesAt: exam.closes_at,
+        shuffleQuestions: exam.shuffle_questions,
+        shuffleOptions: exam.shuffle_options,
+        defaultMarks: exam.default_marks,
+        defaultNegativeMarks: exam.default_negative_marks,
+        instructions: exam.instructions,
+        proctoringPolicy: parseProctoringPolicy(exam.proctoring_policy)
       };
 
+      const windowStatus = getExamWindowStatus(examData);
+      if (windowStatus === 'not-open') {
+        toast({
+          title: "Exam Not Open Yet",
+          description: `${exam.name} opens on ${formatExamDateTime(exam.opens_at)}.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      if (windowStatus === 'closed') {
+        toast({
+          title: "Exam Closed",
+          description: `${exam.name} closed on ${formatExamDateTime(exam.closes_at)}.`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      toast({
+        title: "Access Granted",
+        description: `Welcome to ${exam.name}`,
+      });
+
       console.log('Converted exam data:', examData);
       onSuccess(examData);
     } catch (error) {
@@ -165,6 +165,13 @@ const AccessCodeEntry: React.FC<AccessCodeEntryProps> = ({ onSuccess }) => {
             </form>
           </CardContent>
         </Card>
+
+        <p className="text-center text-sm text-gray-600">
+          Already sat an exam?{' '}
+          <Link to="/results" className="text-blue-600 hover:text-blue-700 underline">
+            Check your results
+          </Link>
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,183 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Lightbulb, XCircle } from 'lucide-react';
+import RichContent from '@/components/RichContent';
+import type { TestResult } from '@/lib/code-runner';
+import { getOptionLetters, isChoiceQuestion, normalizeAnswerLetters, type QuestionType } from '@/lib/questions';
+import { sanitizeRichText } from '@/lib/rich-text';
+
+export interface ReviewQuestion {
+  id: string;
+  questionText: string;
+  questionType: QuestionType;
+  options: string[];
+  correctAnswer: string;
+  acceptedAnswers: string[];
+  explanation: string;
+  selectedAnswer: string; // '' when the question was left unanswered
+  sourceCode: string;
+  testResults: TestResult[] | null;
+  score: number | null; // null while an essay is still being marked
+  marksAwarded: number | null;
+  marks: number;
+  graderComment: string;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const getScoreBadge = (question: ReviewQuestion) => {
+  if (question.score === null || question.marksAwarded === null) {
+    return <Badge variant="secondary">Being marked</Badge>;
+  }
+  const label = `${formatNumber(question.marksAwarded)} / ${formatNumber(question.marks)}`;
+  if (question.score >= 1) {
+    return <Badge className="bg-green-600 hover:bg-green-600">{label}</Badge>;
+  }
+  if (question.score > 0) {
+    return <Badge className="bg-amber-500 hover:bg-amber-500">{label}</Badge>;
+  }
+  return <Badge variant="destructive">{label}</Badge>;
+};
+
+const ChoiceReview: React.FC<{ question: ReviewQuestion }> = ({ question }) => {
+  const correct = normalizeAnswerLetters(question.correctAnswer);
+  const selected = normalizeAnswerLetters(question.selectedAnswer);
+
+  return (
+    <div className="space-y-2">
+      {getOptionLetters(question.options.length).map((letter, index) => {
+        const isCorrect = correct.includes(letter);
+        const isSelected = selected.includes(letter);
+        return (
+          <div
+            key={letter}
+            className={`flex items-start gap-3 rounded-lg border p-3 ${
+              isCorrect ? 'border-green-300 bg-green-50' : isSelected ? 'border-red-300 bg-red-50' : 'border-gray-200'
+            }`}
+          >
+            <span className="font-medium">{letter}.</span>
+            <RichContent source={question.options[index]} className="flex-1" />
+            {isSelected && (
+              <span className={`text-xs font-medium ${isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                Your answer
+              </span>
+            )}
+            {isCorrect && <CheckCircle className="h-4 w-4 shrink-0 text-green-600" />}
+          </div>
+        );
+      })}
+      {!selected && <p className="text-sm text-gray-500 italic">You did not answer this question.</p>}
+    </div>
+  );
+};
+
+const TypedAnswerReview: React.FC<{ question: ReviewQuestion }> = ({ question }) => (
+  <div className="space-y-2 text-sm">
+    <p>
+      <span className="font-medium text-gray-700">Your answer: </span>
+      {question.selectedAnswer
+        ? <span className="font-mono">{question.selectedAnswer}</span>
+        : <span className="text-gray-500 italic">Not answered</span>}
+    </p>
+    <p>
+      <span className="font-medium text-gray-700">Correct answer: </span>
+      <span className="font-mono">{question.correctAnswer}</span>
+    </p>
+    {question.acceptedAnswers.length > 0 && (
+      <p>
+        <span className="font-medium text-gray-700">Also accepted: </span>
+        <span className="font-mono">{question.acceptedAnswers.join(', ')}</span>
+      </p>
+    )}
+  </div>
+);
+
+const CodingReview: React.FC<{ question: ReviewQuestion }> = ({ question }) => {
+  const passed = question.testResults?.filter(result => result.passed).length ?? 0;
+
+  return (
+    <div className="space-y-2 text-sm">
+      {question.sourceCode ? (
+        <pre className="overflow-x-auto rounded-lg bg-gray-900 p-3 font-mono text-xs text-gray-100">
+          {question.sourceCode}
+        </pre>
+      ) : (
+        <p className="text-gray-500 italic">You did not submit any code.</p>
+      )}
+      {question.testResults && (
+        <p className="text-gray-700">
+          Passed {passed} of {question.testResults.length} tests.
+        </p>
+      )}
+    </div>
+  );
+};
+
+const EssayReview: React.FC<{ question: ReviewQuestion }> = ({ question }) => (
+  <div className="space-y-3 text-sm">
+    {question.selectedAnswer ? (
+      <div
+        className="rounded-lg border border-gray-200 p-3 [&_ol]:list-decimal [&_ol]:pl-6 [&_ul]:list-disc [&_ul]:pl-6"
+        dangerouslySetInnerHTML={{ __html: sanitizeRichText(question.selectedAnswer) }}
+      />
+    ) : (
+      <p className="text-gray-500 italic">No answer written.</p>
+    )}
+    {question.graderComment && (
+      <p>
+        <span className="font-medium text-gray-700">Marker's comment: </span>
+        {question.graderComment}
+      </p>
+    )}
+  </div>
+);
+
+interface AnswerReviewProps {
+  questions: ReviewQuestion[];
+}
+
+const AnswerReview: React.FC<AnswerReviewProps> = ({ questions }) => (
+  <div className="space-y-4">
+    {questions.map((question, index) => (
+      <Card key={question.id}>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            {question.score === null ? null : question.score >= 1 ? (
+              <CheckCircle className="h-5 w-5 text-green-600" />
+            ) : (
+              <XCircle className={`h-5 w-5 ${question.score > 0 ? 'text-amber-500' : 'text-red-600'}`} />
+            )}
+            Question {index + 1}
+          </CardTitle>
+          {getScoreBadge(question)}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RichContent source={question.questionText} className="text-gray-900" />
+
+          {isChoiceQuestion(question.questionType) ? (
+            <ChoiceReview question={question} />
+          ) : question.questionType === 'coding' ? (
+            <CodingReview question={question} />
+          ) : question.questionType === 'essay' ? (
+            <EssayReview question={question} />
+          ) : (
+            <TypedAnswerReview question={question} />
+          )}
+
+          {question.explanation && (
+            <div className="rounded-lg bg-blue-50 p-3">
+              <p className="mb-1 flex items-center gap-2 text-sm font-medium text-blue-900">
+                <Lightbulb className="h-4 w-4" />
+                Explanation
+              </p>
+              <RichContent source={question.explanation} className="text-sm text-blue-900" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    ))}
+  </div>
+);
+
+export default AnswerReview;
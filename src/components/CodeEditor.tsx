@@ -0,0 +1,46 @@
+import React from 'react';
+import Editor from 'react-simple-code-editor';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-clike';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/themes/prism.css';
+import { cn } from '@/lib/utils';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  language?: string;
+  minHeight?: number;
+  className?: string;
+}
+
+const CodeEditor: React.FC<CodeEditorProps> = ({
+  value,
+  onChange,
+  onBlur,
+  language = 'javascript',
+  minHeight = 240,
+  className
+}) => {
+  const grammar = Prism.languages[language] || Prism.languages.javascript;
+
+  return (
+    <div className={cn('rounded-lg border border-gray-300 bg-white overflow-auto focus-within:ring-2 focus-within:ring-blue-300', className)}>
+      <Editor
+        value={value}
+        onValueChange={onChange}
+        onBlur={onBlur}
+        highlight={(code) => Prism.highlight(code, grammar, language)}
+        padding={12}
+        tabSize={2}
+        insertSpaces
+        textareaClassName="focus:outline-none"
+        className="font-mono text-sm"
+        style={{ minHeight }}
+      />
+    </div>
+  );
+};
+
+export default CodeEditor;
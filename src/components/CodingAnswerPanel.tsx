@@ -0,0 +1,67 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Play } from 'lucide-react';
+import CodeEditor from '@/components/CodeEditor';
+import type { TestInput, TestResult } from '@/lib/code-runner';
+
+interface CodingAnswerPanelProps {
+  functionName: string;
+  testInputs: TestInput[];
+  sourceCode: string;
+  testResults: TestResult[] | null;
+  isRunning: boolean;
+  onChange: (sourceCode: string) => void;
+  onBlur: () => void;
+  onRunTests: () => void;
+}
+
+const formatCall = (functionName: string, test: TestInput) =>
+  `${functionName}(${test.args.map(arg => JSON.stringify(arg)).join(', ')})`;
+
+const CodingAnswerPanel: React.FC<CodingAnswerPanelProps> = ({
+  functionName,
+  testInputs,
+  sourceCode,
+  testResults,
+  isRunning,
+  onChange,
+  onBlur,
+  onRunTests
+}) => (
+  <div className="space-y-4">
+    <p className="text-sm text-gray-600">
+      Write a JavaScript function named <span className="font-mono font-medium">{functionName}</span>.
+      Run it to see what it returns for each test; the results are checked after you submit.
+    </p>
+
+    <CodeEditor value={sourceCode} onChange={onChange} onBlur={onBlur} />
+
+    <div className="flex items-center justify-between">
+      <span className="text-sm text-gray-700">
+        {testInputs.length} test{testInputs.length === 1 ? '' : 's'}
+      </span>
+      <Button onClick={onRunTests} disabled={isRunning} variant="outline" className="flex items-center gap-2">
+        <Play className="h-4 w-4" />
+        {isRunning ? 'Running...' : 'Run Tests'}
+      </Button>
+    </div>
+
+    <div className="space-y-2">
+      {testInputs.map((test, index) => {
+        const result = testResults?.[index];
+        return (
+          <div key={index} className="rounded-lg bg-gray-50 p-3 text-sm font-mono space-y-1">
+            <p className="text-gray-900">{formatCall(functionName, test)}</p>
+            {result && (
+              result.error
+                ? <p className="text-red-700">{result.error}</p>
+                : <p className="text-gray-700">Returned {result.actual}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default CodingAnswerPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import RichTextEditor from '@/components/RichTextEditor';
+import { countWords, formatWordLimits } from '@/lib/rich-text';
+
+interface EssayAnswerPanelProps {
+  answer: string;
+  minWords: number | null;
+  maxWords: number | null;
+  onChange: (html: string) => void;
+  onBlur: () => void;
+}
+
+const EssayAnswerPanel: React.FC<EssayAnswerPanelProps> = ({
+  answer,
+  minWords,
+  maxWords,
+  onChange,
+  onBlur
+}) => {
+  const wordCount = countWords(answer);
+  const limits = formatWordLimits(minWords, maxWords);
+  const isOutsideLimits = (maxWords !== null && wordCount > maxWords)
+    || (minWords !== null && wordCount > 0 && wordCount < minWords);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        This answer is marked by your teacher after the exam.
+      </p>
+
+      <RichTextEditor value={answer} onChange={onChange} onBlur={onBlur} />
+
+      <div className={`flex justify-between text-sm ${isOutsideLimits ? 'text-red-600' : 'text-gray-600'}`}>
+        <span>{wordCount} word{wordCount === 1 ? '' : 's'}</span>
+        {limits && <span>{limits}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default EssayAnswerPanel;
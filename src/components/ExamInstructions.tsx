@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Award, ClipboardList, Clock, ListChecks, Shield } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import RichContent from '@/components/RichContent';
+import { fromSectionRow, getTotalSectionMinutes, type ExamSection } from '@/lib/exam-sections';
+import { formatExamDateTime } from '@/lib/exam-window';
+import { DEFAULT_PROCTORING_POLICY, describeProctoringPolicy } from '@/lib/proctoring-policy';
+import { formatMarks } from '@/lib/questions';
+import type { Exam, Student } from '@/pages/Index';
+
+interface ExamInstructionsProps {
+  exam: Exam;
+  student: Student;
+  onStart: (consentedAt: string) => void;
+}
+
+const ExamInstructions: React.FC<ExamInstructionsProps> = ({ exam, student, onStart }) => {
+  const [sections, setSections] = useState<ExamSection[]>([]);
+  const [questionCount, setQuestionCount] = useState<number | null>(null);
+  const [hasConsented, setHasConsented] = useState(false);
+  const { toast } = useToast();
+  const policy = exam.proctoringPolicy ?? DEFAULT_PROCTORING_POLICY;
+  const negativeMarks = exam.defaultNegativeMarks ?? 0;
+
+  useEffect(() => {
+    const fetchOverview = async () => {
+      try {
+        const [{ data: sectionRows, error: sectionsError }, { data: count, error: countError }] = await Promise.all([
+          supabase
+            .from('exam_sections')
+            .select('*')
+            .eq('exam_id', exam.id)
+            .order('section_order')
+            .order('created_at'),
+          supabase.rpc('get_exam_question_count', { p_exam_id: exam.id })
+        ]);
+
+        if (sectionsError) {
+          throw sectionsError;
+        }
+        if (countError) {
+          throw countError;
+        }
+
+        setSections((sectionRows || []).map(fromSectionRow));
+        setQuestionCount(count);
+      } catch (error) {
+        console.error('Error fetching exam overview:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the exam details.",
+          variant: "destructive"
+        });
+      }
+    };
+
+    fetchOverview();
+  }, [exam.id, toast]);
+
+  const totalMinutes = sections.length > 0 ? getTotalSectionMinutes(sections) : exam.duration || 60;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl shadow-lg border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5 text-blue-600" />
+            {exam.name}
+          </CardTitle>
+          <CardDescription>
+            {student.name}, please read the instructions carefully. The timer starts when you begin the exam.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div className="flex items-start gap-3 rounded-lg bg-blue-50 p-4">
+              <Clock className="h-5 w-5 text-blue-600 shrink-0" />
+              <div className="space-y-1">
+                <p className="font-medium text-gray-900">{totalMinutes} minutes</p>
+                {sections.length > 0 && (
+                  <p className="text-gray-600">
+                    In {sections.length} timed sections. You cannot return to a section once you leave it.
+                  </p>
+                )}
+                {exam.closesAt && (
+                  <p className="text-gray-600">
+                    The exam closes on {formatExamDateTime(exam.closesAt)}, even if your time has not run out.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3 rounded-lg bg-blue-50 p-4">
+              <ListChecks className="h-5 w-5 text-blue-600 shrink-0" />
+              <div className="space-y-1">
+                <p className="font-medium text-gray-900">
+                  {questionCount === null ? 'Loading questions...' : `${questionCount} question${questionCount === 1 ? '' : 's'}`}
+                </p>
+                <p className="text-gray-600">You can change an answer until you submit.</p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3 rounded-lg bg-blue-50 p-4">
+              <Award className="h-5 w-5 text-blue-600 shrink-0" />
+              <div className="space-y-1">
+                <p className="font-medium text-gray-900">
+                  {formatMarks(exam.defaultMarks ?? 1, negativeMarks)} per question
+                </p>
+                <p className="text-gray-600">
+                  {negativeMarks > 0
+                    ? 'Wrong answers lose marks; unanswered questions score zero. Coding and essay answers never lose marks.'
+                    : 'Wrong and unanswered questions score zero.'}
+                  {' '}Questions worth a different amount show their marks.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-3 rounded-lg bg-blue-50 p-4">
+              <Shield className="h-5 w-5 text-blue-600 shrink-0" />
+              <div className="space-y-1">
+                <p className="font-medium text-gray-900">
+                  {policy.requireFullscreen ? 'Fullscreen required' : 'Proctoring'}
+                </p>
+                <p className="text-gray-600">{describeProctoringPolicy(policy)}</p>
+              </div>
+            </div>
+          </div>
+
+          {sections.length > 0 && (
+            <ol className="space-y-1 text-sm text-gray-700 list-decimal list-inside">
+              {sections.map(section => (
+                <li key={section.id}>
+                  {section.title} ({section.durationMinutes} min)
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {exam.instructions && (
+            <div className="rounded-lg border border-gray-200 p-4">
+              <RichContent source={exam.instructions} className="text-gray-800" />
+            </div>
+          )}
+
+          <div className="flex items-start gap-3 rounded-lg border border-gray-200 p-4">
+            <Checkbox
+              id="consent"
+              checked={hasConsented}
+              onCheckedChange={(checked) => setHasConsented(checked === true)}
+            />
+            <Label htmlFor="consent" className="leading-snug">
+              I have read these instructions and agree to sit the exam under these rules. I understand my activity
+              during the exam is monitored and recorded.
+            </Label>
+          </div>
+
+          <Button
+            className="w-full bg-blue-600 hover:bg-blue-700"
+            disabled={!hasConsented}
+            onClick={() => onStart(new Date().toISOString())}
+          >
+            Start Exam
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExamInstructions;
@@ -1,21 +1,68 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Clock, AlertTriangle, CheckCircle, Circle, Flag, FullscreenIcon } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock, AlertTriangle, Check, CheckCircle, Circle, Flag, FullscreenIcon, Lock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import type { Exam, Student } from '@/pages/Index';
+import { getAvailableSeconds } from '@/lib/exam-window';
+import {
+  fromSectionRow,
+  getQuestionSectionId,
+  groupQuestionsBySection,
+  type ExamSection,
+} from '@/lib/exam-sections';
+import { DEFAULT_PROCTORING_POLICY, describeProctoringPolicy } from '@/lib/proctoring-policy';
+import {
+  OPTION_LETTERS,
+  allowsNegativeMarks,
+  formatMarks,
+  isChoiceQuestion,
+  parseStringList,
+  toggleAnswerLetter,
+  type QuestionType,
+} from '@/lib/questions';
+import { countWords } from '@/lib/rich-text';
+import { getOptionOrder, seededShuffle } from '@/lib/shuffle';
+import {
+  parseTestInputs,
+  parseTestResults,
+  runTestCases,
+  type TestInput,
+  type TestResult,
+} from '@/lib/code-runner';
+import CodingAnswerPanel from '@/components/CodingAnswerPanel';
+import EssayAnswerPanel from '@/components/EssayAnswerPanel';
+import RichContent from '@/components/RichContent';
+import { useExamClock } from '@/hooks/use-exam-clock';
+import { useProctoringLog, type ProctoringEventType } from '@/hooks/use-proctoring-log';
+import type { AttemptStatus, Exam, Student } from '@/pages/Index';
 
 interface Question {
   id: string;
   examId: string;
   questionText: string;
-  optionA: string;
-  optionB: string;
-  optionC: string;
-  optionD: string;
-  correctAnswer: string;
+  options: string[];
+  questionType: QuestionType;
+  functionName: string;
+  starterCode: string;
+  testInputs: TestInput[];
+  minWords: number | null;
+  maxWords: number | null;
+  marks: number | null;
+  negativeMarks: number | null;
+  sectionId: string | null;
   topicTag: string;
   questionOrder: number;
 }
@@ -25,61 +72,219 @@ interface Answer {
   selectedAnswer: string;
   status: 'answered' | 'not-answered' | 'marked-for-review';
   timeSpent: number;
+  sourceCode?: string; // coding questions only
+  testResults?: TestResult[] | null; // null until the current source has been run
 }
 
+interface CodeAnswer {
+  sourceCode: string;
+  testResults: TestResult[] | null;
+}
+
+// Starter code alone does not count as an answer
+const hasWrittenCode = (question: Question, sourceCode: string) =>
+  !!sourceCode.trim() && sourceCode.trim() !== question.starterCode.trim();
+
+// Essays are HTML, so empty markup such as '<p><br></p>' is not an answer
+const hasTypedAnswer = (question: Question | undefined, answer: string) =>
+  question?.questionType === 'essay' ? countWords(answer) > 0 : !!answer.trim();
+
 interface ExamInterfaceProps {
   exam: Exam;
   student: Student;
+  consentedAt: string | null; // when the student accepted the instructions; the server keeps its own time
   onComplete: () => void;
 }
 
-const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete }) => {
-  const [questions, setQuestions] = useState<Question[]>([]);
+const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, consentedAt, onComplete }) => {
+  const [questionBank, setQuestionBank] = useState<Question[]>([]);
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Map<string, Answer>>(new Map());
-  const [timeRemaining, setTimeRemaining] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const isFullscreenRef = useRef(isFullscreen);
-  const pendingAutoSubmit = useRef(false);
+  const [violationCount, setViolationCount] = useState(0);
+  const violationCountRef = useRef(0);
+  const graceTimers = useRef<Partial<Record<ProctoringEventType, ReturnType<typeof setTimeout>>>>({});
+  const isSubmitting = useRef(false);
+  // Proctoring callbacks outlive renders; this always points at the current submitExam
+  const submitExamRef = useRef<(autoSubmit?: boolean, reason?: string) => Promise<void>>();
+  const resumeQuestionIndex = useRef(0);
+  const textSaveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [isRunningTests, setIsRunningTests] = useState(false);
+  const pendingTextSave = useRef<(() => Promise<void>) | null>(null);
   const [questionStartTime, setQuestionStartTime] = useState(Date.now());
   const [submissionId, setSubmissionId] = useState<string | null>(null);
+  // Set when the student's one attempt is already over, e.g. after a reload with a stale session
+  const [closedAttemptStatus, setClosedAttemptStatus] = useState<AttemptStatus | null>(null);
   const { toast } = useToast();
+  const [sections, setSections] = useState<ExamSection[]>([]);
+  const [isLeavingSection, setIsLeavingSection] = useState(false);
+  const isAdvancingSection = useRef(false);
+  const { timeRemaining, sectionTimeRemaining, currentSectionId, syncClock } = useExamClock(
+    submissionId,
+    getAvailableSeconds(exam),
+    () => submitExam(true, 'time_up'),
+    (sectionId) => finishSectionRef.current?.(sectionId, true)
+  );
+  // Like submitExamRef: the clock calls back into whichever render is current
+  const finishSectionRef = useRef<(sectionId: string, timedOut?: boolean) => Promise<void>>();
+  const logProctoringEvent = useProctoringLog(submissionId);
+  const policy = exam.proctoringPolicy ?? DEFAULT_PROCTORING_POLICY;
+
+  // Question order as this student sees it; stable for the attempt because the seed is stored.
+  // Sections keep their questions together, so shuffling only mixes within a section.
+  const questions = useMemo(() => {
+    const ordered = shuffleSeed === null || !exam.shuffleQuestions
+      ? questionBank
+      : seededShuffle(questionBank, shuffleSeed);
+    return sections.length > 0
+      ? groupQuestionsBySection(ordered, sections).flatMap(group => group.questions)
+      : ordered;
+  }, [questionBank, shuffleSeed, exam.shuffleQuestions, sections]);
+
+  // The section being sat; null when the exam has no sections, so nothing is locked
+  const activeSectionId = sections.length > 0 ? currentSectionId : null;
+  const activeSectionIndex = sections.findIndex(section => section.id === activeSectionId);
+  const activeSection = activeSectionIndex === -1 ? null : sections[activeSectionIndex];
 
-  // Fetch questions from database
+  const isQuestionOpen = (question: Question) =>
+    !activeSectionId || getQuestionSectionId(question.sectionId, sections) === activeSectionId;
+
+  // Create submission record when exam starts, or pick up the open one after a reload.
+  // The server draws this attempt's questions from the exam's pool on insert.
   useEffect(() => {
-    const fetchQuestions = async () => {
+    const closeAttempt = (status: AttemptStatus) => {
+      // Nothing to proctor: leaving fullscreen now is not a violation
+      isSubmitting.current = true;
+      setClosedAttemptStatus(status);
+      if (document.fullscreenElement) {
+        document.exitFullscreen();
+      }
+    };
+
+    const startAttempt = async () => {
+      if (!student.id) return;
+
       try {
-        // Set timer based on exam duration (default 60 minutes if not specified)
-        const durationMinutes = exam.duration || 60;
-        const remainingSeconds = durationMinutes * 60;
-        
-        setTimeRemaining(remainingSeconds);
-
-        const { data: questionsData, error } = await supabase
-          .from('questions')
-          .select('*')
+        const { data: latestSubmission, error: latestError } = await supabase
+          .from('submissions')
+          .select('id, status, current_question_index, shuffle_seed, violation_count')
+          .eq('student_id', student.id)
           .eq('exam_id', exam.id)
-          .order('question_order');
+          .order('started_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (latestError) {
+          throw latestError;
+        }
+
+        if (latestSubmission && latestSubmission.status !== 'in_progress') {
+          closeAttempt(latestSubmission.status as AttemptStatus);
+          return;
+        }
+
+        if (latestSubmission) {
+          resumeQuestionIndex.current = latestSubmission.current_question_index;
+          violationCountRef.current = latestSubmission.violation_count;
+          setViolationCount(latestSubmission.violation_count);
+          setShuffleSeed(latestSubmission.shuffle_seed);
+          setSubmissionId(latestSubmission.id);
+          return;
+        }
+
+        const { data: submission, error } = await supabase
+          .from('submissions')
+          .insert({
+            student_id: student.id,
+            exam_id: exam.id,
+            time_taken_minutes: 0,
+            consented_at: consentedAt
+          })
+          .select('id, shuffle_seed')
+          .single();
+
+        // The server allows one attempt per student; another tab may have started it first
+        if (error?.code === '23505') {
+          closeAttempt('submitted');
+          return;
+        }
+
+        if (error) {
+          throw error;
+        }
+
+        setShuffleSeed(submission.shuffle_seed);
+        setSubmissionId(submission.id);
+        console.log('Created submission:', submission);
+      } catch (error) {
+        console.error('Error creating submission:', error);
+        toast({
+          title: "Error",
+          description: "Failed to initialize exam submission.",
+          variant: "destructive"
+        });
+      }
+    };
+
+    startAttempt();
+    if (policy.requireFullscreen) {
+      enterFullscreen();
+    }
+  }, [student.id, exam.id, toast]);
+
+  // Fetch the questions drawn for this attempt, then bring back any saved answers
+  useEffect(() => {
+    if (!submissionId) return;
+
+    const fetchQuestions = async () => {
+      try {
+        // correct_answer is deliberately left out; grading happens on the server
+        const { data: drawnQuestions, error } = await supabase
+          .from('submission_questions')
+          .select('position, questions(id, exam_id, question_text, options, question_type, function_name, starter_code, test_inputs, min_words, max_words, marks, negative_marks, section_id, topic_tag, question_order)')
+          .eq('submission_id', submissionId)
+          .order('position');
 
         if (error) {
           throw error;
         }
 
-        if (questionsData && questionsData.length > 0) {
-          const formattedQuestions: Question[] = questionsData.map(q => ({
+        const { data: sectionRows, error: sectionsError } = await supabase
+          .from('exam_sections')
+          .select('*')
+          .eq('exam_id', exam.id)
+          .order('section_order')
+          .order('created_at');
+
+        if (sectionsError) {
+          throw sectionsError;
+        }
+
+        if (drawnQuestions && drawnQuestions.length > 0) {
+          const formattedQuestions: Question[] = drawnQuestions.map(({ questions: q }) => ({
             id: q.id,
             examId: q.exam_id,
             questionText: q.question_text,
-            optionA: q.option_a,
-            optionB: q.option_b,
-            optionC: q.option_c,
-            optionD: q.option_d,
-            correctAnswer: q.correct_answer,
+            options: parseStringList(q.options),
+            questionType: q.question_type as QuestionType,
+            functionName: q.function_name || '',
+            starterCode: q.starter_code,
+            testInputs: parseTestInputs(q.test_inputs),
+            minWords: q.min_words,
+            maxWords: q.max_words,
+            marks: q.marks,
+            negativeMarks: q.negative_marks,
+            sectionId: q.section_id,
             topicTag: q.topic_tag,
             questionOrder: q.question_order
           }));
 
-          setQuestions(formattedQuestions);
+          await restoreAttempt(formattedQuestions);
+          // Set together: the display order, which the saved question index refers to, depends on both
+          setSections((sectionRows || []).map(fromSectionRow));
+          setQuestionBank(formattedQuestions);
           console.log('Loaded questions:', formattedQuestions);
         } else {
           toast({
@@ -98,61 +303,60 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
       }
     };
 
-    fetchQuestions();
-    enterFullscreen();
-  }, [exam.id, exam.endTime, toast, onComplete]);
+    // Brings back saved answers, review flags and the question the student was on
+    const restoreAttempt = async (attemptQuestions: Question[]) => {
+      const { data: savedResponses, error } = await supabase
+        .from('responses')
+        .select('question_id, selected_answer, marked_for_review, source_code, test_results')
+        .eq('submission_id', submissionId);
 
-  // Create submission record when exam starts
-  useEffect(() => {
-    const createSubmission = async () => {
-      if (!student.id || questions.length === 0) return;
+      if (error) {
+        throw error;
+      }
 
-      try {
-        const { data: submission, error } = await supabase
-          .from('submissions')
-          .insert({
-            student_id: student.id,
-            exam_id: exam.id,
-            total_questions: questions.length,
-            total_score: 0,
-            time_taken_minutes: 0
-          })
-          .select()
-          .single();
+      const attemptQuestionsById = new Map(attemptQuestions.map(q => [q.id, q]));
+      const restored = new Map<string, Answer>();
+      (savedResponses || []).forEach(response => {
+        const question = attemptQuestionsById.get(response.question_id);
+        const questionType = question?.questionType;
 
-        if (error) {
-          throw error;
+        if (question?.questionType === 'coding') {
+          const sourceCode = response.source_code ?? question.starterCode;
+          restored.set(response.question_id, {
+            questionId: response.question_id,
+            selectedAnswer: '',
+            status: response.marked_for_review
+              ? 'marked-for-review'
+              : hasWrittenCode(question, sourceCode) ? 'answered' : 'not-answered',
+            timeSpent: 0,
+            sourceCode,
+            testResults: parseTestResults(response.test_results)
+          });
+          return;
         }
 
-        setSubmissionId(submission.id);
-        console.log('Created submission:', submission);
-      } catch (error) {
-        console.error('Error creating submission:', error);
-        toast({
-          title: "Error",
-          description: "Failed to initialize exam submission.",
-          variant: "destructive"
+        // Typed answers come back as written; option letters are stored lower-case with 'n' for none
+        const selectedAnswer = questionType && !isChoiceQuestion(questionType)
+          ? response.selected_answer || ''
+          : response.selected_answer && response.selected_answer !== 'n'
+            ? response.selected_answer.toUpperCase()
+            : '';
+        restored.set(response.question_id, {
+          questionId: response.question_id,
+          selectedAnswer,
+          status: response.marked_for_review
+            ? 'marked-for-review'
+            : hasTypedAnswer(question, selectedAnswer) ? 'answered' : 'not-answered',
+          timeSpent: 0
         });
-      }
-    };
-
-    createSubmission();
-  }, [student.id, exam.id, questions.length, toast]);
-
-  // Timer effect
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          submitExam(true);
-          return 0;
-        }
-        return prev - 1;
       });
-    }, 1000);
 
-    return () => clearInterval(timer);
-  }, []);
+      setAnswers(restored);
+      setCurrentQuestionIndex(Math.min(Math.max(resumeQuestionIndex.current, 0), attemptQuestions.length - 1));
+    };
+
+    fetchQuestions();
+  }, [submissionId, exam.id, toast]);
 
   // Fullscreen and exit detection
   const enterFullscreen = useCallback(() => {
@@ -163,10 +367,61 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
           title: "Exam Started",
           description: "You are now in proctored mode. Do not exit fullscreen.",
         });
+      }).catch(error => {
+        // Browsers refuse fullscreen without a user gesture, e.g. right after a reload
+        console.error('Could not enter fullscreen:', error);
       });
     }
   }, [toast]);
 
+  // A counted violation uses up a warning; once they are gone the exam is handed in
+  const recordViolation = useCallback((eventType: ProctoringEventType) => {
+    if (isSubmitting.current) return;
+
+    const count = violationCountRef.current + 1;
+    violationCountRef.current = count;
+    setViolationCount(count);
+    logProctoringEvent(eventType, { violation: true, warning: count });
+
+    if (count > policy.maxWarnings) {
+      toast({
+        title: "Proctoring Violation",
+        description: "You have no warnings left. Your exam is being auto-submitted.",
+        variant: "destructive"
+      });
+      submitExamRef.current?.(true, eventType);
+      return;
+    }
+
+    const remaining = policy.maxWarnings - count;
+    toast({
+      title: "Proctoring Warning",
+      description: remaining === 0
+        ? "One more violation will auto-submit your exam."
+        : `${remaining} warning${remaining === 1 ? '' : 's'} left before your exam is auto-submitted.`,
+      variant: "destructive"
+    });
+  }, [policy.maxWarnings, logProctoringEvent, toast, submissionId]);
+
+  // Leaving only counts once the grace period runs out without the student coming back
+  const startGracePeriod = useCallback((eventType: ProctoringEventType) => {
+    if (policy.gracePeriodSeconds === 0) {
+      recordViolation(eventType);
+      return;
+    }
+
+    clearTimeout(graceTimers.current[eventType]);
+    graceTimers.current[eventType] = setTimeout(() => {
+      delete graceTimers.current[eventType];
+      recordViolation(eventType);
+    }, policy.gracePeriodSeconds * 1000);
+  }, [policy.gracePeriodSeconds, recordViolation]);
+
+  const endGracePeriod = useCallback((eventType: ProctoringEventType) => {
+    clearTimeout(graceTimers.current[eventType]);
+    delete graceTimers.current[eventType];
+  }, []);
+
   const handleFullscreenChange = useCallback(() => {
     const isNowFullscreen = !!(
       document.fullscreenElement ||
@@ -174,30 +429,45 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
       (document as any).mozFullScreenElement ||
       (document as any).msFullscreenElement
     );
-    if (!isNowFullscreen && isFullscreenRef.current) {
-      setIsFullscreen(false);
-      toast({
-        title: "Fullscreen Exit Detected",
-        description: "Your exam will be auto-submitted due to policy violation.",
-        variant: "destructive"
-      });
-      if (submissionId) {
-        setTimeout(() => submitExam(true), 2000);
-      } else {
-        pendingAutoSubmit.current = true;
+    setIsFullscreen(isNowFullscreen);
+    if (isSubmitting.current) return;
+
+    if (isNowFullscreen) {
+      endGracePeriod('fullscreen_exit');
+    } else if (isFullscreenRef.current) {
+      logProctoringEvent('fullscreen_exit');
+      if (policy.requireFullscreen) {
+        toast({
+          title: "Fullscreen Exit Detected",
+          description: policy.gracePeriodSeconds > 0
+            ? `Return to fullscreen within ${policy.gracePeriodSeconds} seconds or it counts as a violation.`
+            : "Leaving fullscreen counts as a violation.",
+          variant: "destructive"
+        });
+        startGracePeriod('fullscreen_exit');
       }
     }
-  }, [toast, submissionId]);
+  }, [toast, logProctoringEvent, policy.requireFullscreen, policy.gracePeriodSeconds, startGracePeriod, endGracePeriod]);
 
   const handleVisibilityChange = useCallback(() => {
-    if (document.hidden) {
+    if (isSubmitting.current) return;
+
+    if (!document.hidden) {
+      endGracePeriod('tab_switch');
+      return;
+    }
+
+    logProctoringEvent('tab_switch');
+    if (policy.countTabSwitches) {
+      startGracePeriod('tab_switch');
+    } else {
       toast({
         title: "Tab Switch Detected",
         description: "Please return to the exam immediately.",
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [toast, logProctoringEvent, policy.countTabSwitches, startGracePeriod, endGracePeriod]);
 
   useEffect(() => {
     if (!submissionId) return; // Only add listeners if submissionId is set
@@ -218,11 +488,11 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
   }, [handleFullscreenChange, handleVisibilityChange, submissionId]);
 
   useEffect(() => {
-    if (submissionId && pendingAutoSubmit.current) {
-      setTimeout(() => submitExam(true), 2000);
-      pendingAutoSubmit.current = false;
-    }
-  }, [submissionId]);
+    const timers = graceTimers.current;
+    return () => {
+      Object.values(timers).forEach(timer => clearTimeout(timer));
+    };
+  }, []);
 
   useEffect(() => {
     isFullscreenRef.current = isFullscreen;
@@ -234,13 +504,19 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const saveAnswer = async (questionId: string, selectedAnswer: string, status: Answer['status']) => {
+  const saveAnswer = async (
+    questionId: string,
+    selectedAnswer: string,
+    status: Answer['status'],
+    code?: CodeAnswer
+  ) => {
     const timeSpent = Date.now() - questionStartTime;
     const answerData: Answer = {
       questionId,
       selectedAnswer,
       status,
-      timeSpent
+      timeSpent,
+      ...code
     };
 
     setAnswers(prev => new Map(prev).set(questionId, answerData));
@@ -260,19 +536,19 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
     if (selectedAnswer !== undefined && selectedAnswer !== null) {
       try {
         const question = questions.find(q => q.id === questionId);
-        const correctAnswerLower = question?.correctAnswer?.toLowerCase() || '';
-        const selectedAnswerLower = selectedAnswer ? selectedAnswer.toLowerCase() : 'n';
-        const isCorrect = question && selectedAnswerLower && selectedAnswerLower !== 'n' ? selectedAnswerLower === correctAnswerLower : false;
+        const storedAnswer = question && !isChoiceQuestion(question.questionType)
+          ? selectedAnswer
+          : selectedAnswer ? selectedAnswer.toLowerCase() : 'n';
 
         const { error } = await supabase
           .from('responses')
           .upsert({
             submission_id: submissionId,
             question_id: questionId,
-            selected_answer: selectedAnswerLower,
-            correct_answer: correctAnswerLower,
-            is_correct: isCorrect,
-            time_taken_seconds: Math.floor(timeSpent / 1000)
+            selected_answer: storedAnswer,
+            marked_for_review: status === 'marked-for-review',
+            time_taken_seconds: Math.floor(timeSpent / 1000),
+            ...(code && { source_code: code.sourceCode, test_results: code.testResults })
           }, {
             onConflict: 'submission_id,question_id'
           });
@@ -280,7 +556,7 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
         if (error) {
           console.error('Error saving response:', error);
         } else {
-          console.log(`Response saved for question ${questionId}:`, { selectedAnswer, isCorrect, timeSpent });
+          console.log(`Response saved for question ${questionId}:`, { selectedAnswer, timeSpent });
         }
       } catch (error) {
         console.error('Error saving response:', error);
@@ -299,9 +575,107 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
       return;
     }
     const currentQuestion = questions[currentQuestionIndex];
+    if (currentQuestion.questionType === 'multiple') {
+      // Ticking toggles one option; the saved answer is every ticked letter, e.g. 'AC'
+      const selected = toggleAnswerLetter(answers.get(currentQuestion.id)?.selectedAnswer || '', option);
+      saveAnswer(currentQuestion.id, selected, selected ? 'answered' : 'not-answered');
+      return;
+    }
     saveAnswer(currentQuestion.id, option, 'answered');
   };
 
+  // Typed answers are saved after a pause in typing rather than on every keystroke
+  const cancelPendingTextSave = () => {
+    clearTimeout(textSaveTimer.current);
+    pendingTextSave.current = null;
+  };
+
+  const flushTextAnswer = () => {
+    clearTimeout(textSaveTimer.current);
+    const save = pendingTextSave.current;
+    pendingTextSave.current = null;
+    return save ? save() : Promise.resolve();
+  };
+
+  const handleTextAnswerChange = (value: string) => {
+    const currentQuestion = questions[currentQuestionIndex];
+    const previousStatus = answers.get(currentQuestion.id)?.status;
+    const status: Answer['status'] = previousStatus === 'marked-for-review'
+      ? 'marked-for-review'
+      : hasTypedAnswer(currentQuestion, value) ? 'answered' : 'not-answered';
+
+    setAnswers(prev => new Map(prev).set(currentQuestion.id, {
+      questionId: currentQuestion.id,
+      selectedAnswer: value,
+      status,
+      timeSpent: Date.now() - questionStartTime
+    }));
+
+    clearTimeout(textSaveTimer.current);
+    pendingTextSave.current = () => saveAnswer(currentQuestion.id, value, status);
+    textSaveTimer.current = setTimeout(flushTextAnswer, 800);
+  };
+
+  const getSourceCode = (question: Question) =>
+    answers.get(question.id)?.sourceCode ?? question.starterCode;
+
+  const handleCodeChange = (sourceCode: string) => {
+    const currentQuestion = questions[currentQuestionIndex];
+    const previousStatus = answers.get(currentQuestion.id)?.status;
+    const status: Answer['status'] = previousStatus === 'marked-for-review'
+      ? 'marked-for-review'
+      : hasWrittenCode(currentQuestion, sourceCode) ? 'answered' : 'not-answered';
+    // Edited code invalidates the last test run
+    const code: CodeAnswer = { sourceCode, testResults: null };
+
+    setAnswers(prev => new Map(prev).set(currentQuestion.id, {
+      questionId: currentQuestion.id,
+      selectedAnswer: '',
+      status,
+      timeSpent: Date.now() - questionStartTime,
+      ...code
+    }));
+
+    clearTimeout(textSaveTimer.current);
+    pendingTextSave.current = () => saveAnswer(currentQuestion.id, '', status, code);
+    textSaveTimer.current = setTimeout(flushTextAnswer, 800);
+  };
+
+  const runCodeTests = async (question: Question) => {
+    const sourceCode = getSourceCode(question);
+    const testResults = await runTestCases(sourceCode, question.functionName, question.testInputs);
+    const status = answers.get(question.id)?.status === 'marked-for-review'
+      ? 'marked-for-review'
+      : hasWrittenCode(question, sourceCode) ? 'answered' : 'not-answered';
+    await saveAnswer(question.id, '', status, { sourceCode, testResults });
+  };
+
+  const handleRunTests = async () => {
+    const currentQuestion = questions[currentQuestionIndex];
+    cancelPendingTextSave();
+    setIsRunningTests(true);
+    try {
+      await runCodeTests(currentQuestion);
+    } finally {
+      setIsRunningTests(false);
+    }
+  };
+
+  // Code changed since its last run is tested before hand-in so the marks reflect it.
+  // Closed sections cannot have changed since they were left.
+  const runOutstandingCodeTests = () =>
+    Promise.all(
+      questions
+        .filter(question => {
+          const answer = answers.get(question.id);
+          return question.questionType === 'coding'
+            && isQuestionOpen(question)
+            && answer?.sourceCode !== undefined
+            && !answer.testResults;
+        })
+        .map(runCodeTests)
+    );
+
   const markForReview = () => {
     if (!submissionId) {
       toast({
@@ -314,70 +688,58 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
     }
     const currentQuestion = questions[currentQuestionIndex];
     const currentAnswer = answers.get(currentQuestion.id);
+    // This save carries the latest typed answer, so a queued one would only undo the flag
+    cancelPendingTextSave();
     saveAnswer(
       currentQuestion.id, 
       currentAnswer?.selectedAnswer || '', 
-      'marked-for-review'
+      'marked-for-review',
+      currentQuestion.questionType === 'coding'
+        ? { sourceCode: getSourceCode(currentQuestion), testResults: currentAnswer?.testResults ?? null }
+        : undefined
     );
   };
 
   const navigateToQuestion = (index: number) => {
+    flushTextAnswer();
     setCurrentQuestionIndex(index);
     setQuestionStartTime(Date.now());
+
+    // Remember where the student is so a resumed attempt opens on the same question
+    if (submissionId) {
+      supabase
+        .from('submissions')
+        .update({ current_question_index: index })
+        .eq('id', submissionId)
+        .then(({ error }) => {
+          if (error) {
+            console.error('Error saving current question:', error);
+          }
+        });
+    }
   };
 
-  const submitExam = async (autoSubmit = false) => {
+  const submitExam = async (autoSubmit = false, reason?: string) => {
     if (!submissionId) {
       console.error('No submission ID available');
       return;
     }
+    if (isSubmitting.current) return;
+    isSubmitting.current = true;
 
     try {
-      // Calculate total score
-      let totalScore = 0;
-      const responses = Array.from(answers.values());
-      
-      responses.forEach(answer => {
-        if (answer.selectedAnswer && answer.status === 'answered') {
-          const question = questions.find(q => q.id === answer.questionId);
-          if (question && answer.selectedAnswer === question.correctAnswer) {
-            totalScore++;
-          }
-        }
-      });
+      await flushTextAnswer();
+      await runOutstandingCodeTests();
 
-      // Export all unanswered questions as 'not-answered' to the database
-      const unansweredQuestions = questions.filter(q => !answers.has(q.id));
-      for (const question of unansweredQuestions) {
-        try {
-          const correctAnswerLower = question.correctAnswer?.toLowerCase() || '';
-          await supabase
-            .from('responses')
-            .upsert({
-              submission_id: submissionId,
-              question_id: question.id,
-              selected_answer: 'n',
-              correct_answer: correctAnswerLower,
-              is_correct: false,
-              time_taken_seconds: 0
-            }, {
-              onConflict: 'submission_id,question_id'
-            });
-        } catch (error) {
-          console.error('Error saving unanswered response:', error);
-        }
+      // Record why the exam was submitted for the student while the attempt is still open
+      if (autoSubmit) {
+        await logProctoringEvent('auto_submit', { reason: reason || 'unknown' });
       }
 
-      // Calculate time taken in minutes
-      const totalDurationMinutes = exam.duration || 60;
-      const timeTakenMinutes = totalDurationMinutes - Math.floor(timeRemaining / 60);
-
-      // Update submission with final score and time
+      // Hand in the submission; the server stamps the time and freezes responses
       const { error: updateError } = await supabase
         .from('submissions')
         .update({
-          total_score: totalScore,
-          time_taken_minutes: timeTakenMinutes,
           submitted_at: new Date().toISOString()
         })
         .eq('id', submissionId);
@@ -386,10 +748,16 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
         throw updateError;
       }
 
+      // Score against the answer key on the server, recording unanswered questions as 'n'
+      const { error: gradeError } = await supabase
+        .rpc('grade_submission', { p_submission_id: submissionId });
+
+      if (gradeError) {
+        throw gradeError;
+      }
+
       console.log('Exam submitted successfully:', {
         submissionId,
-        totalScore,
-        timeTakenMinutes,
         totalQuestions: questions.length,
         autoSubmit
       });
@@ -405,6 +773,7 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
 
       onComplete();
     } catch (error) {
+      isSubmitting.current = false;
       console.error('Error submitting exam:', error);
       toast({
         title: "Submission Error",
@@ -414,6 +783,83 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
     }
   };
 
+  submitExamRef.current = submitExam;
+
+  // Closes the current section for good, when the student moves on or its time runs out
+  const finishSection = async (sectionId: string, timedOut = false) => {
+    if (!submissionId || sectionId !== activeSectionId || isAdvancingSection.current) return;
+
+    const nextSection = sections[activeSectionIndex + 1];
+    if (!nextSection) {
+      // The last section ends with the exam
+      await submitExam(timedOut, 'time_up');
+      return;
+    }
+
+    isAdvancingSection.current = true;
+    try {
+      await flushTextAnswer();
+      await runOutstandingCodeTests();
+
+      const { error } = await supabase.rpc('advance_submission_section', {
+        p_submission_id: submissionId,
+        p_from_section_id: sectionId
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      await syncClock();
+      toast({
+        title: timedOut ? "Section Time Up" : "Section Complete",
+        description: `${activeSection?.title} is closed. You are now in ${nextSection.title}.`,
+      });
+    } catch (error) {
+      console.error('Error moving to the next section:', error);
+      toast({
+        title: "Error",
+        description: "Could not move to the next section. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      isAdvancingSection.current = false;
+    }
+  };
+
+  finishSectionRef.current = finishSection;
+
+  // Entering a section, or resuming into one, lands on its first question
+  useEffect(() => {
+    if (!activeSectionId || questions.length === 0) return;
+
+    const current = questions[currentQuestionIndex];
+    if (current && getQuestionSectionId(current.sectionId, sections) === activeSectionId) return;
+
+    const firstIndex = questions.findIndex(q => getQuestionSectionId(q.sectionId, sections) === activeSectionId);
+    if (firstIndex !== -1) {
+      setCurrentQuestionIndex(firstIndex);
+      setQuestionStartTime(Date.now());
+    }
+  }, [activeSectionId, questions, sections, currentQuestionIndex]);
+
+  // Options in display order. Labels follow the screen position, but answers are
+  // always saved under the canonical letter so grading and reports need no mapping.
+  const getDisplayOptions = (question: Question) => {
+    const order = exam.shuffleOptions && shuffleSeed !== null
+      ? getOptionOrder(question.options.length, shuffleSeed, question.id)
+      : question.options.map((_, index) => index);
+
+    return order.map((canonicalIndex, displayIndex) => {
+      const key = OPTION_LETTERS[canonicalIndex];
+      return {
+        key,
+        label: OPTION_LETTERS[displayIndex],
+        text: question.options[canonicalIndex]
+      };
+    });
+  };
+
   const getQuestionStatus = (questionId: string): Answer['status'] => {
     return answers.get(questionId)?.status || 'not-answered';
   };
@@ -426,6 +872,27 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
     return { answered, markedForReview, notAnswered };
   };
 
+  if (closedAttemptStatus) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 space-y-4 text-center">
+            <AlertTriangle className="h-10 w-10 text-yellow-500 mx-auto" />
+            <h2 className="text-xl font-semibold text-gray-900">Exam Already Attempted</h2>
+            <p className="text-gray-600">
+              {closedAttemptStatus === 'expired'
+                ? 'Your time for this exam ran out and your saved answers were submitted.'
+                : 'You have already submitted this exam. Only one attempt is allowed.'}
+            </p>
+            <Button onClick={onComplete} className="w-full">
+              Continue
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (questions.length === 0) {
     return <div className="min-h-screen flex items-center justify-center">Loading exam...</div>;
   }
@@ -433,6 +900,35 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
   const currentQuestion = questions[currentQuestionIndex];
   const currentAnswer = answers.get(currentQuestion.id);
   const statusCounts = getStatusCounts();
+  const previousQuestion = questions[currentQuestionIndex - 1];
+  const nextQuestion = questions[currentQuestionIndex + 1];
+  const isFirstInSection = !previousQuestion || !isQuestionOpen(previousQuestion);
+
+  // Questions in closed and upcoming sections are shown but cannot be opened
+  const renderQuestionButton = (question: Question, index: number) => {
+    const status = getQuestionStatus(question.id);
+    const isCurrent = index === currentQuestionIndex;
+    const isOpen = isQuestionOpen(question);
+
+    return (
+      <button
+        key={question.id}
+        onClick={() => navigateToQuestion(index)}
+        disabled={!isOpen}
+        className={`w-10 h-10 rounded-lg text-sm font-medium transition-all disabled:cursor-not-allowed disabled:opacity-50 ${
+          isCurrent
+            ? 'bg-blue-600 text-white ring-2 ring-blue-300'
+            : status === 'answered'
+            ? 'bg-green-500 text-white hover:bg-green-600'
+            : status === 'marked-for-review'
+            ? 'bg-yellow-500 text-white hover:bg-yellow-600'
+            : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+        }`}
+      >
+        {index + 1}
+      </button>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -446,10 +942,22 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
             </div>
             
             <div className="flex items-center gap-4">
+              {activeSection && sectionTimeRemaining !== null && (
+                <div className={`flex items-center gap-2 px-3 py-1 rounded-lg ${
+                  sectionTimeRemaining < 300 ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'
+                }`}>
+                  <Clock className="h-4 w-4" />
+                  <span className="text-sm">{activeSection.title}</span>
+                  <span className="font-mono font-medium">{formatTime(sectionTimeRemaining)}</span>
+                </div>
+              )}
               <div className={`flex items-center gap-2 px-3 py-1 rounded-lg ${
-                timeRemaining < 300 ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'
+                activeSection
+                  ? 'bg-gray-100 text-gray-700'
+                  : timeRemaining < 300 ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'
               }`}>
                 <Clock className="h-4 w-4" />
+                {activeSection && <span className="text-sm">Total</span>}
                 <span className="font-mono font-medium">{formatTime(timeRemaining)}</span>
               </div>
               
@@ -467,11 +975,33 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
           <Card className="shadow-lg">
             <CardContent className="p-6">
               <div className="space-y-6">
+                {/* Section */}
+                {activeSection && (
+                  <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+                    <p className="text-sm font-medium text-blue-900">
+                      Section {activeSectionIndex + 1} of {sections.length}: {activeSection.title}
+                    </p>
+                    {activeSection.instructions && isFirstInSection && (
+                      <RichContent source={activeSection.instructions} className="mt-2 text-sm text-blue-900" />
+                    )}
+                  </div>
+                )}
+
                 {/* Question Header */}
                 <div className="flex items-center justify-between">
-                  <h2 className="text-lg font-medium text-gray-900">
-                    Question {currentQuestionIndex + 1} of {questions.length}
-                  </h2>
+                  <div className="flex items-center gap-3">
+                    <h2 className="text-lg font-medium text-gray-900">
+                      Question {currentQuestionIndex + 1} of {questions.length}
+                    </h2>
+                    <Badge variant="outline" title="Marks for a correct / wrong answer">
+                      {formatMarks(
+                        currentQuestion.marks ?? exam.defaultMarks ?? 1,
+                        allowsNegativeMarks(currentQuestion.questionType)
+                          ? currentQuestion.negativeMarks ?? exam.defaultNegativeMarks ?? 0
+                          : 0
+                      )}
+                    </Badge>
+                  </div>
                   <Button
                     onClick={markForReview}
                     variant="outline"
@@ -485,59 +1015,107 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
 
                 {/* Question Text */}
                 <div className="bg-gray-50 p-4 rounded-lg">
-                  <p className="text-gray-900 text-lg leading-relaxed">
-                    {currentQuestion.questionText}
-                  </p>
+                  <RichContent
+                    source={currentQuestion.questionText}
+                    className="text-gray-900 text-lg leading-relaxed"
+                  />
+                  {currentQuestion.questionType === 'multiple' && (
+                    <p className="text-sm text-blue-700 mt-2">Select all that apply.</p>
+                  )}
                 </div>
 
-                {/* Options */}
-                <div className="space-y-3">
-                  {['A', 'B', 'C', 'D'].map(option => {
-                    const optionText = currentQuestion[`option${option}` as keyof Question] as string;
-                    const isSelected = currentAnswer?.selectedAnswer === option;
-                    
-                    return (
-                      <div
-                        key={option}
-                        className={`p-4 border-2 rounded-lg cursor-pointer transition-all hover:bg-blue-50 ${
-                          isSelected 
-                            ? 'border-blue-500 bg-blue-50' 
-                            : 'border-gray-200'
-                        }`}
-                        onClick={() => handleAnswerSelect(option)}
-                      >
-                        <div className="flex items-center gap-3">
-                          <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                {/* Answer */}
+                {currentQuestion.questionType === 'coding' ? (
+                  <CodingAnswerPanel
+                    key={currentQuestion.id}
+                    functionName={currentQuestion.functionName}
+                    testInputs={currentQuestion.testInputs}
+                    sourceCode={getSourceCode(currentQuestion)}
+                    testResults={currentAnswer?.testResults ?? null}
+                    isRunning={isRunningTests}
+                    onChange={handleCodeChange}
+                    onBlur={flushTextAnswer}
+                    onRunTests={handleRunTests}
+                  />
+                ) : currentQuestion.questionType === 'essay' ? (
+                  <EssayAnswerPanel
+                    key={currentQuestion.id}
+                    answer={currentAnswer?.selectedAnswer || ''}
+                    minWords={currentQuestion.minWords}
+                    maxWords={currentQuestion.maxWords}
+                    onChange={handleTextAnswerChange}
+                    onBlur={flushTextAnswer}
+                  />
+                ) : !isChoiceQuestion(currentQuestion.questionType) ? (
+                  <Input
+                    key={currentQuestion.id}
+                    value={currentAnswer?.selectedAnswer || ''}
+                    onChange={(e) => handleTextAnswerChange(e.target.value)}
+                    onBlur={flushTextAnswer}
+                    inputMode={currentQuestion.questionType === 'numeric' ? 'decimal' : 'text'}
+                    placeholder={currentQuestion.questionType === 'numeric' ? 'Enter a number' : 'Type your answer'}
+                    autoComplete="off"
+                    className="text-lg"
+                  />
+                ) : (
+                  <div className="space-y-3">
+                    {getDisplayOptions(currentQuestion).map(option => {
+                      const isMultiple = currentQuestion.questionType === 'multiple';
+                      const isSelected = isMultiple
+                        ? !!currentAnswer?.selectedAnswer.includes(option.key)
+                        : currentAnswer?.selectedAnswer === option.key;
+
+                      return (
+                        <div
+                          key={option.key}
+                          className={`p-4 border-2 rounded-lg cursor-pointer transition-all hover:bg-blue-50 ${
                             isSelected 
-                              ? 'border-blue-500 bg-blue-500' 
-                              : 'border-gray-300'
-                          }`}>
-                            {isSelected && <CheckCircle className="h-4 w-4 text-white" />}
+                              ? 'border-blue-500 bg-blue-50' 
+                              : 'border-gray-200'
+                          }`}
+                          onClick={() => handleAnswerSelect(option.key)}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className={`w-6 h-6 ${isMultiple ? 'rounded' : 'rounded-full'} border-2 flex items-center justify-center ${
+                              isSelected 
+                                ? 'border-blue-500 bg-blue-500' 
+                                : 'border-gray-300'
+                            }`}>
+                              {isSelected && (isMultiple
+                                ? <Check className="h-4 w-4 text-white" />
+                                : <CheckCircle className="h-4 w-4 text-white" />)}
+                            </div>
+                            <span className="font-medium text-gray-700">{option.label}.</span>
+                            <RichContent source={option.text} className="min-w-0 flex-1 text-gray-900" />
                           </div>
-                          <span className="font-medium text-gray-700">{option}.</span>
-                          <span className="text-gray-900">{optionText}</span>
                         </div>
-                      </div>
-                    );
-                  })}
-                </div>
+                      );
+                    })}
+                  </div>
+                )}
 
                 {/* Navigation */}
                 <div className="flex justify-between pt-4">
                   <Button
                     onClick={() => navigateToQuestion(currentQuestionIndex - 1)}
-                    disabled={currentQuestionIndex === 0}
+                    disabled={!previousQuestion || !isQuestionOpen(previousQuestion)}
                     variant="outline"
                   >
                     Previous
                   </Button>
                   
-                  <Button
-                    onClick={() => navigateToQuestion(currentQuestionIndex + 1)}
-                    disabled={currentQuestionIndex === questions.length - 1}
-                  >
-                    Next
-                  </Button>
+                  {activeSection && activeSectionIndex < sections.length - 1 && (!nextQuestion || !isQuestionOpen(nextQuestion)) ? (
+                    <Button onClick={() => setIsLeavingSection(true)}>
+                      Next Section
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => navigateToQuestion(currentQuestionIndex + 1)}
+                      disabled={!nextQuestion || !isQuestionOpen(nextQuestion)}
+                    >
+                      Next
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -580,30 +1158,27 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
           <Card>
             <CardContent className="p-4">
               <h3 className="font-medium text-gray-900 mb-3">Questions</h3>
-              <div className="grid grid-cols-5 gap-2">
-                {questions.map((question, index) => {
-                  const status = getQuestionStatus(question.id);
-                  const isCurrent = index === currentQuestionIndex;
-                  
-                  return (
-                    <button
-                      key={question.id}
-                      onClick={() => navigateToQuestion(index)}
-                      className={`w-10 h-10 rounded-lg text-sm font-medium transition-all ${
-                        isCurrent
-                          ? 'bg-blue-600 text-white ring-2 ring-blue-300'
-                          : status === 'answered'
-                          ? 'bg-green-500 text-white hover:bg-green-600'
-                          : status === 'marked-for-review'
-                          ? 'bg-yellow-500 text-white hover:bg-yellow-600'
-                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                      }`}
-                    >
-                      {index + 1}
-                    </button>
-                  );
-                })}
-              </div>
+              {sections.length > 0 ? (
+                <div className="space-y-4">
+                  {groupQuestionsBySection(questions, sections).map(({ section, questions: sectionQuestions }, sectionIndex) => (
+                    <div key={section.id}>
+                      <p className={`mb-2 flex items-center gap-1 text-sm font-medium ${
+                        section.id === activeSectionId ? 'text-blue-700' : 'text-gray-500'
+                      }`}>
+                        {activeSectionId && section.id !== activeSectionId && <Lock className="h-3 w-3" />}
+                        {sectionIndex + 1}. {section.title}
+                      </p>
+                      <div className="grid grid-cols-5 gap-2">
+                        {sectionQuestions.map(question => renderQuestionButton(question, questions.indexOf(question)))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-5 gap-2">
+                  {questions.map((question, index) => renderQuestionButton(question, index))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -615,12 +1190,45 @@ const ExamInterface: React.FC<ExamInterfaceProps> = ({ exam, student, onComplete
                 <span className="text-sm font-medium">Proctored Exam</span>
               </div>
               <p className="text-xs text-amber-700 mt-1">
-                Stay in fullscreen mode. Any violations will auto-submit your exam.
+                {describeProctoringPolicy(policy)}
               </p>
+              {(policy.requireFullscreen || policy.countTabSwitches) && (
+                <p className="text-xs font-medium text-amber-800 mt-2">
+                  Warnings remaining: {Math.max(policy.maxWarnings - violationCount, 0)} of {policy.maxWarnings}
+                </p>
+              )}
+              {policy.requireFullscreen && !isFullscreen && (
+                <Button
+                  onClick={enterFullscreen}
+                  size="sm"
+                  variant="outline"
+                  className="mt-3 w-full flex items-center gap-2"
+                >
+                  <FullscreenIcon className="h-4 w-4" />
+                  Return to Fullscreen
+                </Button>
+              )}
             </CardContent>
           </Card>
         </div>
       </div>
+
+      <AlertDialog open={isLeavingSection} onOpenChange={setIsLeavingSection}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Finish {activeSection?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Once you move on you cannot come back to the questions in this section.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay</AlertDialogCancel>
+            <AlertDialogAction onClick={() => activeSectionId && finishSection(activeSectionId)}>
+              Go to Next Section
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
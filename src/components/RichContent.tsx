@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import 'katex/dist/katex.min.css';
+import 'prismjs/themes/prism.css';
+import { renderRichContent } from '@/lib/rich-content';
+import { cn } from '@/lib/utils';
+
+interface RichContentProps {
+  source: string;
+  className?: string;
+}
+
+// Question stems and options are Markdown; see renderRichContent for what is supported
+const RichContent: React.FC<RichContentProps> = ({ source, className }) => {
+  const html = useMemo(() => renderRichContent(source), [source]);
+
+  return <div className={cn('rich-content', className)} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default RichContent;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Bold, Italic, List, ListOrdered, Underline } from 'lucide-react';
+import { sanitizeRichText } from '@/lib/rich-text';
+import { cn } from '@/lib/utils';
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  onBlur?: () => void;
+  minHeight?: number;
+  className?: string;
+}
+
+const FORMAT_COMMANDS = [
+  { command: 'bold', label: 'Bold', icon: Bold },
+  { command: 'italic', label: 'Italic', icon: Italic },
+  { command: 'underline', label: 'Underline', icon: Underline },
+  { command: 'insertUnorderedList', label: 'Bulleted list', icon: List },
+  { command: 'insertOrderedList', label: 'Numbered list', icon: ListOrdered },
+];
+
+// The editable area owns its content once mounted; value only seeds it, so
+// remount (via key) to show a different answer
+const RichTextEditor: React.FC<RichTextEditorProps> = ({
+  value,
+  onChange,
+  onBlur,
+  minHeight = 240,
+  className
+}) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const initialValue = useRef(value);
+
+  useEffect(() => {
+    if (editorRef.current) {
+      editorRef.current.innerHTML = sanitizeRichText(initialValue.current);
+    }
+  }, []);
+
+  const emitChange = () => {
+    if (editorRef.current) {
+      onChange(sanitizeRichText(editorRef.current.innerHTML));
+    }
+  };
+
+  const applyFormat = (command: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command);
+    emitChange();
+  };
+
+  return (
+    <div className={cn('rounded-lg border border-gray-300 bg-white focus-within:ring-2 focus-within:ring-blue-300', className)}>
+      <div className="flex gap-1 border-b border-gray-200 p-1">
+        {FORMAT_COMMANDS.map(({ command, label, icon: Icon }) => (
+          <Button
+            key={command}
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            // Keep the selection in the editor while the button is pressed
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => applyFormat(command)}
+            aria-label={label}
+            title={label}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        role="textbox"
+        aria-multiline="true"
+        onInput={emitChange}
+        onBlur={onBlur}
+        onPaste={(e) => {
+          // Pasted content arrives as plain text so outside formatting never reaches the answer
+          e.preventDefault();
+          document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+        }}
+        className="p-3 focus:outline-none [&_ol]:list-decimal [&_ol]:pl-6 [&_ul]:list-disc [&_ul]:pl-6"
+        style={{ minHeight }}
+      />
+    </div>
+  );
+};
+
+export default RichTextEditor;
@@ -7,11 +7,11 @@ import { Label } from '@/components/ui/label';
 import { User, Mail, Hash, Clock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import type { Exam, Student } from '@/pages/Index';
+import type { AttemptStatus, Exam, Student } from '@/pages/Index';
 
 interface StudentRegistrationProps {
   exam: Exam;
-  onSuccess: (student: Student) => void;
+  onSuccess: (student: Student, attemptStatus?: AttemptStatus) => void;
 }
 
 const StudentRegistration: React.FC<StudentRegistrationProps> = ({ exam, onSuccess }) => {
@@ -52,56 +52,38 @@ const StudentRegistration: React.FC<StudentRegistrationProps> = ({ exam, onSucce
     setIsLoading(true);
 
     try {
-      // Check if student already exists with this roll number using maybeSingle()
-      const { data: existingStudent, error: fetchError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('roll_number', formData.rollNumber)
-        .maybeSingle();
-
-      if (fetchError) {
-        throw fetchError;
-      }
+      // Returns the student already registered with this roll number, provided the email matches
+      const { data: studentId, error: studentError } = await supabase
+        .rpc('register_student', {
+          p_name: formData.name,
+          p_email: formData.email,
+          p_roll_number: formData.rollNumber
+        });
 
-      let studentId: string;
+      if (studentError?.code === '28000') {
+        toast({
+          title: "Email Does Not Match",
+          description: "This roll number is registered with a different email address",
+          variant: "destructive"
+        });
+        return;
+      }
 
-      if (existingStudent) {
-        // Use existing student
-        studentId = existingStudent.id;
-        console.log('Using existing student:', existingStudent);
-      } else {
-        // Create new student
-        const { data: newStudent, error: studentError } = await supabase
-          .from('students')
-          .insert({
-            name: formData.name,
-            email: formData.email,
-            roll_number: formData.rollNumber
-          })
-          .select()
-          .single();
-
-        if (studentError) {
-          throw studentError;
-        }
-
-        studentId = newStudent.id;
-        console.log('Created new student:', newStudent);
+      if (studentError) {
+        throw studentError;
       }
 
-      // Check if student has already submitted this exam using maybeSingle()
-      const { data: existingSubmission, error: submissionError } = await supabase
-        .from('submissions')
-        .select('*')
-        .eq('student_id', studentId)
-        .eq('exam_id', exam.id)
-        .maybeSingle();
+      // Check for an earlier attempt; the server expires it first if its time ran out
+      const { data: attempts, error: attemptError } = await supabase
+        .rpc('get_attempt_status', { p_exam_id: exam.id, p_student_id: studentId });
 
-      if (submissionError) {
-        throw submissionError;
+      if (attemptError) {
+        throw attemptError;
       }
 
-      if (existingSubmission) {
+      const attemptStatus = attempts?.[0]?.status as AttemptStatus | undefined;
+
+      if (attemptStatus === 'submitted') {
         toast({
           title: "Already Submitted",
           description: "You have already submitted this exam",
@@ -110,15 +92,31 @@ const StudentRegistration: React.FC<StudentRegistrationProps> = ({ exam, onSucce
         return;
       }
 
-      toast({
-        title: "Registration Successful",
-        description: "You're now ready to start the exam",
-      });
+      if (attemptStatus === 'expired') {
+        toast({
+          title: "Time Expired",
+          description: "Your time for this exam ran out and your saved answers were submitted",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (attemptStatus === 'in_progress') {
+        toast({
+          title: "Resuming Exam",
+          description: "Welcome back. Your saved answers have been restored.",
+        });
+      } else {
+        toast({
+          title: "Registration Successful",
+          description: "Please read the instructions before you start the exam",
+        });
+      }
 
       onSuccess({
         ...formData,
         id: studentId
-      });
+      }, attemptStatus);
     } catch (error) {
       console.error('Error during registration:', error);
       toast({
@@ -216,7 +214,7 @@ const StudentRegistration: React.FC<StudentRegistrationProps> = ({ exam, onSucce
                 className="w-full bg-blue-600 hover:bg-blue-700 mt-6"
                 disabled={isLoading}
               >
-                {isLoading ? 'Registering...' : 'Start Exam'}
+                {isLoading ? 'Registering...' : 'Continue'}
               </Button>
             </form>
           </CardContent>
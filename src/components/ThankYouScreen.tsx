@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { CheckCircle, BookOpen, Clock, Award } from 'lucide-react';
 import type { Student } from '@/pages/Index';
@@ -74,7 +75,7 @@ const ThankYouScreen: React.FC<ThankYouScreenProps> = ({ student }) => {
             <CardContent className="p-4 text-center">
               <Award className="h-8 w-8 text-purple-600 mx-auto mb-2" />
               <h3 className="font-semibold text-purple-900">Results</h3>
-              <p className="text-purple-700 text-sm">Will be available soon</p>
+              <p className="text-purple-700 text-sm">Available once released</p>
             </CardContent>
           </Card>
         </div>
@@ -90,11 +91,15 @@ const ThankYouScreen: React.FC<ThankYouScreenProps> = ({ student }) => {
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-blue-600 font-bold">•</span>
-                Results will be published by your instructor within 24-48 hours
+                Your instructor will let you know when results are released
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-blue-600 font-bold">•</span>
-                You will receive an email notification when results are available
+                <span>
+                  Then look up your score on the{' '}
+                  <Link to="/results" className="text-blue-600 hover:text-blue-700 underline">results page</Link>
+                  {' '}with the access code, your roll number and email
+                </span>
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-blue-600 font-bold">•</span>
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, X } from 'lucide-react';
+import CodeEditor from '@/components/CodeEditor';
+import type { QuestionDraft, TestCaseDraft } from '@/lib/questions';
+
+interface CodingAnswerFieldsProps {
+  question: QuestionDraft;
+  onChange: (changes: Partial<QuestionDraft>) => void;
+}
+
+// Function name, starter code and the test cases a coding answer is marked against
+const CodingAnswerFields: React.FC<CodingAnswerFieldsProps> = ({ question, onChange }) => {
+  const updateTestCase = (index: number, changes: Partial<TestCaseDraft>) => {
+    onChange({
+      testCases: question.testCases.map((test, i) => (i === index ? { ...test, ...changes } : test))
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="functionName">Function Name</Label>
+        <Input
+          id="functionName"
+          value={question.functionName}
+          onChange={(e) => onChange({ functionName: e.target.value })}
+          className="font-mono"
+          placeholder="e.g., sumArray"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Starter Code</Label>
+        <CodeEditor
+          value={question.starterCode}
+          onChange={(starterCode) => onChange({ starterCode })}
+          minHeight={140}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Test Cases (students see the arguments only; each passing test earns an equal share of the marks)</Label>
+        {question.testCases.map((test, index) => (
+          <div key={index} className="flex items-center gap-3">
+            <span className="w-6 text-sm text-gray-600">{index + 1}.</span>
+            <Input
+              value={test.args}
+              onChange={(e) => updateTestCase(index, { args: e.target.value })}
+              className="font-mono"
+              placeholder="Arguments, e.g. [[1, 2, 3]]"
+              aria-label={`Test ${index + 1} arguments`}
+            />
+            <Input
+              value={test.expected}
+              onChange={(e) => updateTestCase(index, { expected: e.target.value })}
+              className="font-mono"
+              placeholder="Expected, e.g. 6"
+              aria-label={`Test ${index + 1} expected result`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ testCases: question.testCases.filter((_, i) => i !== index) })}
+              aria-label={`Remove test ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ testCases: [...question.testCases, { args: '[]', expected: '' }] })}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Test Case
+        </Button>
+        <p className="text-xs text-gray-500">
+          Arguments and expected results are JSON. Students can see the tests and run them while they work.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CodingAnswerFields;
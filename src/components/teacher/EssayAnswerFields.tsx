@@ -0,0 +1,99 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, X } from 'lucide-react';
+import { DEFAULT_ESSAY_POINTS, type QuestionDraft, type RubricCriterion } from '@/lib/questions';
+
+interface EssayAnswerFieldsProps {
+  question: QuestionDraft;
+  onChange: (changes: Partial<QuestionDraft>) => void;
+}
+
+const toWordLimit = (value: string) => (value.trim() ? Math.max(0, Math.floor(Number(value) || 0)) : null);
+
+// Word limits and the rubric a teacher marks the essay against
+const EssayAnswerFields: React.FC<EssayAnswerFieldsProps> = ({ question, onChange }) => {
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    onChange({
+      rubric: question.rubric.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion))
+    });
+  };
+
+  const totalPoints = question.rubric.reduce((sum, criterion) => sum + criterion.points, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="minWords">Minimum Words (optional)</Label>
+          <Input
+            id="minWords"
+            type="number"
+            min={0}
+            value={question.minWords ?? ''}
+            onChange={(e) => onChange({ minWords: toWordLimit(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="maxWords">Maximum Words (optional)</Label>
+          <Input
+            id="maxWords"
+            type="number"
+            min={1}
+            value={question.maxWords ?? ''}
+            onChange={(e) => onChange({ maxWords: toWordLimit(e.target.value) || null })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Rubric</Label>
+        {question.rubric.map((criterion, index) => (
+          <div key={index} className="flex items-center gap-3">
+            <Input
+              value={criterion.criterion}
+              onChange={(e) => updateCriterion(index, { criterion: e.target.value })}
+              placeholder="e.g., Clear argument"
+              aria-label={`Rubric row ${index + 1} description`}
+            />
+            <Input
+              type="number"
+              min={1}
+              value={criterion.points}
+              onChange={(e) => updateCriterion(index, { points: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-24"
+              aria-label={`Rubric row ${index + 1} points`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ rubric: question.rubric.filter((_, i) => i !== index) })}
+              aria-label={`Remove rubric row ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ rubric: [...question.rubric, { criterion: '', points: 5 }] })}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Criterion
+        </Button>
+        <p className="text-xs text-gray-500">
+          {question.rubric.length > 0
+            ? `Marked out of ${totalPoints} points.`
+            : `Without a rubric the essay is marked out of ${DEFAULT_ESSAY_POINTS} points.`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default EssayAnswerFields;
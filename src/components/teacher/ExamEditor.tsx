@@ -0,0 +1,561 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, BarChart3, ClipboardCheck, Save, TrendingUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTeacherAuth } from '@/hooks/use-teacher-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/exam-window';
+import type { ExamSection } from '@/lib/exam-sections';
+import {
+  DEFAULT_PROCTORING_POLICY,
+  parseProctoringPolicy,
+  toProctoringPolicyJson,
+  type ProctoringPolicy,
+} from '@/lib/proctoring-policy';
+import {
+  getPoolMode,
+  parseDrawRules,
+  toDrawRulesJson,
+  type DrawRule,
+  type PoolMode,
+} from '@/lib/question-pool';
+import ExamQuestionList from './ExamQuestionList';
+import ExamSectionList from './ExamSectionList';
+import ProctoringPolicySettings from './ProctoringPolicySettings';
+import QuestionPoolSettings from './QuestionPoolSettings';
+
+const EXAM_STATUSES = ['draft', 'active', 'closed'] as const;
+
+const ACCESS_CODE_PATTERN = /^[A-Z0-9]{4,10}$/;
+
+interface ExamFormData {
+  name: string;
+  topic: string;
+  durationMinutes: string;
+  accessCode: string;
+  status: string;
+  opensAt: string;
+  closesAt: string;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  defaultMarks: string;
+  defaultNegativeMarks: string;
+  instructions: string;
+  resultsReleased: boolean;
+  answerReviewReleased: boolean;
+  poolMode: PoolMode;
+  drawCount: string;
+  drawRules: DrawRule[];
+  proctoringPolicy: ProctoringPolicy;
+}
+
+const emptyExamForm: ExamFormData = {
+  name: '',
+  topic: '',
+  durationMinutes: '60',
+  accessCode: '',
+  status: 'draft',
+  opensAt: '',
+  closesAt: '',
+  shuffleQuestions: false,
+  shuffleOptions: false,
+  defaultMarks: '1',
+  defaultNegativeMarks: '0',
+  instructions: '',
+  resultsReleased: false,
+  answerReviewReleased: false,
+  poolMode: 'all',
+  drawCount: '',
+  drawRules: [],
+  proctoringPolicy: DEFAULT_PROCTORING_POLICY
+};
+
+const validateExam = (formData: ExamFormData): string | null => {
+  if (!formData.name.trim() || !formData.topic.trim()) {
+    return 'Name and topic are required';
+  }
+
+  const duration = Number(formData.durationMinutes);
+  if (!Number.isInteger(duration) || duration <= 0) {
+    return 'Duration must be a whole number of minutes';
+  }
+
+  if (!ACCESS_CODE_PATTERN.test(formData.accessCode)) {
+    return 'Access code must be 4-10 letters or digits';
+  }
+
+  if (formData.opensAt && formData.closesAt && new Date(formData.closesAt) <= new Date(formData.opensAt)) {
+    return 'The exam must close after it opens';
+  }
+
+  if (!(Number(formData.defaultMarks) > 0)) {
+    return 'Marks per question must be more than zero';
+  }
+
+  if (!(Number(formData.defaultNegativeMarks) >= 0)) {
+    return 'Negative marks cannot be below zero';
+  }
+
+  if (formData.poolMode === 'random') {
+    const drawCount = Number(formData.drawCount);
+    if (!Number.isInteger(drawCount) || drawCount <= 0) {
+      return 'Enter how many questions to draw for each student';
+    }
+  }
+
+  if (formData.poolMode === 'by-topic' && formData.drawRules.length === 0) {
+    return 'Choose how many questions to draw from at least one topic';
+  }
+
+  return null;
+};
+
+const ExamEditor: React.FC = () => {
+  const { examId } = useParams<{ examId: string }>();
+  const isNew = !examId || examId === 'new';
+  const { teacher } = useTeacherAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<ExamFormData>(emptyExamForm);
+  const [isLoading, setIsLoading] = useState(!isNew);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sections, setSections] = useState<ExamSection[]>([]);
+
+  useEffect(() => {
+    if (isNew) {
+      setFormData(emptyExamForm);
+      setIsLoading(false);
+      return;
+    }
+
+    const fetchExam = async () => {
+      try {
+        const { data: exam, error } = await supabase
+          .from('exams')
+          .select('*')
+          .eq('id', examId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+
+        if (!exam) {
+          toast({
+            title: "Exam Not Found",
+            description: "This exam does not exist or belongs to another teacher.",
+            variant: "destructive"
+          });
+          navigate('/teacher');
+          return;
+        }
+
+        setFormData({
+          name: exam.name,
+          topic: exam.topic,
+          durationMinutes: String(exam.duration_minutes || 60),
+          accessCode: exam.access_code,
+          status: exam.status || 'draft',
+          opensAt: toDateTimeLocalValue(exam.opens_at),
+          closesAt: toDateTimeLocalValue(exam.closes_at),
+          shuffleQuestions: exam.shuffle_questions,
+          shuffleOptions: exam.shuffle_options,
+          defaultMarks: String(exam.default_marks),
+          defaultNegativeMarks: String(exam.default_negative_marks),
+          instructions: exam.instructions,
+          resultsReleased: exam.results_released,
+          answerReviewReleased: exam.answer_review_released,
+          poolMode: getPoolMode(exam.draw_count, parseDrawRules(exam.draw_rules)),
+          drawCount: exam.draw_count ? String(exam.draw_count) : '',
+          drawRules: parseDrawRules(exam.draw_rules),
+          proctoringPolicy: parseProctoringPolicy(exam.proctoring_policy)
+        });
+      } catch (error) {
+        console.error('Error fetching exam:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the exam.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchExam();
+  }, [examId, isNew, navigate, toast]);
+
+  const handleInputChange = <K extends keyof ExamFormData>(field: K, value: ExamFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teacher) return;
+
+    const validationError = validateExam(formData);
+    if (validationError) {
+      toast({
+        title: "Invalid Exam Details",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const examRow = {
+      name: formData.name.trim(),
+      topic: formData.topic.trim(),
+      duration_minutes: Number(formData.durationMinutes),
+      access_code: formData.accessCode,
+      status: formData.status,
+      opens_at: fromDateTimeLocalValue(formData.opensAt),
+      closes_at: fromDateTimeLocalValue(formData.closesAt),
+      shuffle_questions: formData.shuffleQuestions,
+      shuffle_options: formData.shuffleOptions,
+      default_marks: Number(formData.defaultMarks),
+      default_negative_marks: Number(formData.defaultNegativeMarks),
+      instructions: formData.instructions.trim(),
+      results_released: formData.resultsReleased,
+      answer_review_released: formData.resultsReleased && formData.answerReviewReleased,
+      draw_count: formData.poolMode === 'random'
+        ? Number(formData.drawCount)
+        : formData.poolMode === 'by-topic'
+          ? formData.drawRules.reduce((sum, rule) => sum + rule.count, 0)
+          : null,
+      draw_rules: formData.poolMode === 'by-topic' ? toDrawRulesJson(formData.drawRules) : [],
+      proctoring_policy: toProctoringPolicyJson(formData.proctoringPolicy),
+      teacher_id: teacher.id,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      if (isNew) {
+        const { data: exam, error } = await supabase
+          .from('exams')
+          .insert(examRow)
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+
+        toast({
+          title: "Exam Created",
+          description: "Now add some questions to your exam.",
+        });
+        navigate(`/teacher/exams/${exam.id}`, { replace: true });
+      } else {
+        const { error } = await supabase
+          .from('exams')
+          .update(examRow)
+          .eq('id', examId);
+
+        if (error) {
+          throw error;
+        }
+
+        toast({
+          title: "Exam Saved",
+          description: "Your changes have been saved.",
+        });
+      }
+    } catch (error) {
+      console.error('Error saving exam:', error);
+      toast({
+        title: "Save Failed",
+        description: error?.code === '23505'
+          ? "That access code is already used by another exam."
+          : "Could not save the exam. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-500">Loading exam...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Link to="/teacher" className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700">
+          <ArrowLeft className="h-4 w-4" />
+          Back to My Exams
+        </Link>
+        {!isNew && (
+          <div className="flex items-center gap-4">
+            <Link
+              to={`/teacher/exams/${examId}/results`}
+              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <BarChart3 className="h-4 w-4" />
+              Results
+            </Link>
+            <Link
+              to={`/teacher/exams/${examId}/analysis`}
+              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <TrendingUp className="h-4 w-4" />
+              Item Analysis
+            </Link>
+            <Link
+              to={`/teacher/exams/${examId}/grading`}
+              className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              Grading Queue
+            </Link>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{isNew ? 'Create Exam' : 'Exam Details'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Exam Name</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="e.g., Data Structures Mid-Term"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="topic">Topic</Label>
+              <Input
+                id="topic"
+                value={formData.topic}
+                onChange={(e) => handleInputChange('topic', e.target.value)}
+                placeholder="e.g., Computer Science"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="durationMinutes">Duration (minutes)</Label>
+              <Input
+                id="durationMinutes"
+                type="number"
+                min={1}
+                value={formData.durationMinutes}
+                onChange={(e) => handleInputChange('durationMinutes', e.target.value)}
+              />
+              {sections.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Not used while the exam has sections; each section has its own time limit.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="accessCode">Access Code</Label>
+              <Input
+                id="accessCode"
+                value={formData.accessCode}
+                onChange={(e) => handleInputChange('accessCode', e.target.value.toUpperCase())}
+                className="font-mono tracking-wider"
+                maxLength={10}
+                placeholder="e.g., MATHS101"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={formData.status} onValueChange={(value) => handleInputChange('status', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXAM_STATUSES.map(status => (
+                    <SelectItem key={status} value={status} className="capitalize">
+                      {status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="opensAt">Opens At (optional)</Label>
+              <Input
+                id="opensAt"
+                type="datetime-local"
+                value={formData.opensAt}
+                onChange={(e) => handleInputChange('opensAt', e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="closesAt">Closes At (optional)</Label>
+              <Input
+                id="closesAt"
+                type="datetime-local"
+                value={formData.closesAt}
+                onChange={(e) => handleInputChange('closesAt', e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Students who start late only get the time left before this.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="defaultMarks">Marks per Question</Label>
+              <Input
+                id="defaultMarks"
+                type="number"
+                min={0}
+                step="any"
+                value={formData.defaultMarks}
+                onChange={(e) => handleInputChange('defaultMarks', e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Used by every question that does not set its own marks.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="defaultNegativeMarks">Negative Marks per Wrong Answer</Label>
+              <Input
+                id="defaultNegativeMarks"
+                type="number"
+                min={0}
+                step="any"
+                value={formData.defaultNegativeMarks}
+                onChange={(e) => handleInputChange('defaultNegativeMarks', e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Unanswered questions score zero. Coding and essay answers never lose marks.
+              </p>
+            </div>
+
+            <div className="space-y-3 md:col-span-2">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="shuffleQuestions"
+                  checked={formData.shuffleQuestions}
+                  onCheckedChange={(checked) => handleInputChange('shuffleQuestions', checked)}
+                />
+                <Label htmlFor="shuffleQuestions">Shuffle question order for each student</Label>
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="shuffleOptions"
+                  checked={formData.shuffleOptions}
+                  onCheckedChange={(checked) => handleInputChange('shuffleOptions', checked)}
+                />
+                <Label htmlFor="shuffleOptions">Shuffle answer options for each student</Label>
+              </div>
+            </div>
+
+            <div className="space-y-3 md:col-span-2">
+              <Label>Results</Label>
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="resultsReleased"
+                  checked={formData.resultsReleased}
+                  onCheckedChange={(checked) => handleInputChange('resultsReleased', checked)}
+                />
+                <Label htmlFor="resultsReleased">Release results to students</Label>
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="answerReviewReleased"
+                  checked={formData.resultsReleased && formData.answerReviewReleased}
+                  disabled={!formData.resultsReleased}
+                  onCheckedChange={(checked) => handleInputChange('answerReviewReleased', checked)}
+                />
+                <Label htmlFor="answerReviewReleased">Let students review their answers with the key and explanations</Label>
+              </div>
+              <p className="text-xs text-gray-500">
+                Students look up their score, rank and percentile on the results page with the access code, their
+                roll number and email. Rank only counts fully graded attempts, so mark essays before releasing.
+              </p>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label>Proctoring</Label>
+              <ProctoringPolicySettings
+                policy={formData.proctoringPolicy}
+                onChange={(policy) => handleInputChange('proctoringPolicy', policy)}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="instructions">Instructions for Students (optional)</Label>
+              <Textarea
+                id="instructions"
+                rows={6}
+                value={formData.instructions}
+                onChange={(e) => handleInputChange('instructions', e.target.value)}
+                placeholder="Rules, allowed materials, what to do if something goes wrong... Markdown is supported."
+              />
+              <p className="text-xs text-gray-500">
+                Shown before the exam starts, together with the time limit, question count, marking scheme and
+                proctoring rules. Students must accept them to begin.
+              </p>
+            </div>
+
+            {!isNew && examId && (
+              <div className="space-y-2 md:col-span-2">
+                <Label>Question Pool</Label>
+                <QuestionPoolSettings
+                  examId={examId}
+                  mode={formData.poolMode}
+                  drawCount={formData.drawCount}
+                  drawRules={formData.drawRules}
+                  onModeChange={(mode) => handleInputChange('poolMode', mode)}
+                  onDrawCountChange={(drawCount) => handleInputChange('drawCount', drawCount)}
+                  onDrawRulesChange={(drawRules) => handleInputChange('drawRules', drawRules)}
+                />
+              </div>
+            )}
+
+            <div className="flex items-end justify-end md:col-span-2">
+              <Button type="submit" disabled={isSaving} className="flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                {isSaving ? 'Saving...' : isNew ? 'Create Exam' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {!isNew && examId && <ExamSectionList examId={examId} onSectionsChange={setSections} />}
+
+      {!isNew && examId && (
+        <ExamQuestionList
+          examId={examId}
+          examName={formData.name}
+          defaultMarks={Number(formData.defaultMarks) || 1}
+          defaultNegativeMarks={Number(formData.defaultNegativeMarks) || 0}
+          sections={sections}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ExamEditor;
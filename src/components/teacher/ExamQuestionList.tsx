@@ -0,0 +1,395 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_ESSAY_POINTS,
+  OPTION_LETTERS,
+  QUESTION_TYPE_LABELS,
+  allowsNegativeMarks,
+  formatMarks,
+  fromQuestionRow,
+  toQuestionRow,
+  type QuestionDraft,
+} from '@/lib/questions';
+import { getQuestionSectionId, type ExamSection } from '@/lib/exam-sections';
+import { buildQtiPackage } from '@/lib/qti';
+import { downloadBlob, getExportFileName } from '@/lib/results-export';
+import { formatWordLimits } from '@/lib/rich-text';
+import RichContent from '@/components/RichContent';
+import QuestionEditorDialog from './QuestionEditorDialog';
+import QuestionImportDialog from './QuestionImportDialog';
+
+interface ExamQuestionListProps {
+  examId: string;
+  examName: string;
+  defaultMarks: number;
+  defaultNegativeMarks: number;
+  sections: ExamSection[];
+}
+
+const ExamQuestionList: React.FC<ExamQuestionListProps> = ({
+  examId,
+  examName,
+  defaultMarks,
+  defaultNegativeMarks,
+  sections
+}) => {
+  const getSectionTitle = (sectionId: string | null) =>
+    sections.find(section => section.id === getQuestionSectionId(sectionId, sections))?.title;
+
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<QuestionDraft | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [questionToDelete, setQuestionToDelete] = useState<QuestionDraft | null>(null);
+  const { toast } = useToast();
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('*')
+        .eq('exam_id', examId)
+        .order('question_order');
+
+      if (error) {
+        throw error;
+      }
+
+      setQuestions((data || []).map(fromQuestionRow));
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load questions.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [examId, toast]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const nextQuestionOrder = questions.reduce((max, q) => Math.max(max, q.questionOrder ?? 0), 0) + 1;
+
+  const handleExportQti = () => {
+    const { data, skipped } = buildQtiPackage(examName, questions);
+    downloadBlob(new Blob([data], { type: 'application/zip' }), `${getExportFileName(examName, 'qti')}.zip`);
+
+    if (skipped > 0) {
+      toast({
+        title: "Coding Questions Left Out",
+        description: `QTI has no coding items, so ${skipped} question${skipped === 1 ? ' was' : 's were'} not exported.`,
+      });
+    }
+  };
+
+  const openEditor = (question: QuestionDraft | null) => {
+    setEditingQuestion(question);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = async (draft: QuestionDraft) => {
+    setIsSaving(true);
+
+    try {
+      if (draft.id) {
+        const { error } = await supabase
+          .from('questions')
+          .update(toQuestionRow(draft, examId, draft.questionOrder ?? 0))
+          .eq('id', draft.id);
+
+        if (error) {
+          throw error;
+        }
+      } else {
+        const { error } = await supabase
+          .from('questions')
+          .insert(toQuestionRow(draft, examId, nextQuestionOrder));
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      toast({
+        title: "Question Saved",
+        description: draft.id ? "Your changes have been saved." : "The question was added to the exam.",
+      });
+      setIsEditorOpen(false);
+      await fetchQuestions();
+    } catch (error) {
+      console.error('Error saving question:', error);
+      toast({
+        title: "Save Failed",
+        description: "Could not save the question. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!questionToDelete?.id) return;
+
+    try {
+      const { error } = await supabase
+        .from('questions')
+        .delete()
+        .eq('id', questionToDelete.id);
+
+      if (error) {
+        throw error;
+      }
+
+      // Close the gap left in question_order
+      const remaining = questions.filter(q => q.id !== questionToDelete.id);
+      await persistOrder(remaining);
+      toast({
+        title: "Question Deleted",
+        description: "The question was removed from the exam.",
+      });
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      toast({
+        title: "Delete Failed",
+        description: error?.code === '23503'
+          ? "Students have already answered this question, so it cannot be deleted."
+          : "Could not delete the question. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setQuestionToDelete(null);
+    }
+  };
+
+  // Renumbers question_order to 1..n and writes only the rows that changed
+  const persistOrder = async (ordered: QuestionDraft[]) => {
+    const renumbered = ordered.map((q, index) => ({ ...q, questionOrder: index + 1 }));
+    setQuestions(renumbered);
+
+    const changed = renumbered.filter((q, index) => ordered[index].questionOrder !== q.questionOrder);
+    for (const question of changed) {
+      const { error } = await supabase
+        .from('questions')
+        .update({ question_order: question.questionOrder })
+        .eq('id', question.id);
+
+      if (error) {
+        throw error;
+      }
+    }
+  };
+
+  const moveQuestion = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      await persistOrder(reordered);
+    } catch (error) {
+      console.error('Error reordering questions:', error);
+      toast({
+        title: "Reorder Failed",
+        description: "Could not save the new order.",
+        variant: "destructive"
+      });
+      await fetchQuestions();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Questions ({questions.length})</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={handleExportQti}
+            disabled={questions.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            Export QTI
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)} className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => openEditor(null)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Question
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-gray-500">Loading questions...</p>
+        ) : questions.length === 0 ? (
+          <p className="text-gray-600">No questions yet. Add the first one to get started.</p>
+        ) : (
+          questions.map((question, index) => (
+            <div key={question.id} className="border rounded-lg p-4 bg-white">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-700">Q{index + 1}.</span>
+                    <Badge variant="outline">
+                      {formatMarks(
+                        question.marks ?? defaultMarks,
+                        allowsNegativeMarks(question.questionType) ? question.negativeMarks ?? defaultNegativeMarks : 0
+                      )}
+                    </Badge>
+                    {sections.length > 0 && <Badge variant="outline">{getSectionTitle(question.sectionId)}</Badge>}
+                    {question.topicTag && <Badge variant="secondary">{question.topicTag}</Badge>}
+                    {question.questionType !== 'single' && (
+                      <Badge variant="outline">{QUESTION_TYPE_LABELS[question.questionType]}</Badge>
+                    )}
+                  </div>
+                  <RichContent source={question.questionText} className="text-gray-900" />
+                  {question.questionType === 'numeric' && (
+                    <p className="text-sm text-green-700 font-medium">
+                      Answer: {question.correctAnswer}
+                      {question.answerTolerance > 0 && (question.toleranceMode === 'relative'
+                        ? ` (± ${question.answerTolerance}%)`
+                        : ` (± ${question.answerTolerance})`)}
+                    </p>
+                  )}
+                  {question.questionType === 'coding' && (
+                    <p className="text-sm text-green-700 font-medium">
+                      <span className="font-mono">{question.functionName}</span> checked by {question.testCases.length} test{question.testCases.length === 1 ? '' : 's'}
+                    </p>
+                  )}
+                  {question.questionType === 'essay' && (
+                    <p className="text-sm text-gray-600">
+                      {[
+                        formatWordLimits(question.minWords, question.maxWords),
+                        question.rubric.length > 0
+                          ? `Rubric: ${question.rubric.map(c => `${c.criterion} (${c.points})`).join(', ')}`
+                          : `Marked out of ${DEFAULT_ESSAY_POINTS}`
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  {question.questionType === 'short_text' && (
+                    <p className="text-sm text-green-700 font-medium">
+                      Answer: {[question.correctAnswer, ...question.acceptedAnswers].join(' / ')}
+                      {question.caseSensitive && ' (case-sensitive)'}
+                    </p>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm">
+                    {question.options.map((option, index) => {
+                      const letter = OPTION_LETTERS[index];
+                      return (
+                        <div
+                          key={letter}
+                          className={`flex gap-1 ${question.correctAnswer.includes(letter) ? 'text-green-700 font-medium' : 'text-gray-600'}`}
+                        >
+                          <span>{letter}.</span>
+                          <RichContent source={option} className="min-w-0" />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveQuestion(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveQuestion(index, 1)}
+                    disabled={index === questions.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(question)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setQuestionToDelete(question)}
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <QuestionEditorDialog
+        open={isEditorOpen}
+        question={editingQuestion}
+        isSaving={isSaving}
+        defaultMarks={defaultMarks}
+        defaultNegativeMarks={defaultNegativeMarks}
+        sections={sections}
+        onOpenChange={setIsEditorOpen}
+        onSave={handleSave}
+      />
+
+      <QuestionImportDialog
+        open={isImportOpen}
+        examId={examId}
+        nextQuestionOrder={nextQuestionOrder}
+        onOpenChange={setIsImportOpen}
+        onImported={fetchQuestions}
+      />
+
+      <AlertDialog open={!!questionToDelete} onOpenChange={(open) => !open && setQuestionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Questions that students have already answered cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ExamQuestionList;
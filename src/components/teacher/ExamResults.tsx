@@ -0,0 +1,453 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Download, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { formatExamDateTime } from '@/lib/exam-window';
+import {
+  RESULT_FILTER_LABELS,
+  compareResults,
+  formatAutoSubmitReason,
+  getAutoSubmitReason,
+  matchesResultFilter,
+  type ResultFilter,
+  type ResultSortKey,
+  type SubmissionResult,
+} from '@/lib/exam-results';
+import type { QuestionType } from '@/lib/questions';
+import {
+  buildResultsTable,
+  downloadCsv,
+  downloadXlsx,
+  getExportFileName,
+  type ExportQuestion,
+  type ExportResponse,
+} from '@/lib/results-export';
+
+const PAGE_SIZE = 20;
+
+// PostgREST returns at most this many rows per request
+const FETCH_BATCH_SIZE = 1000;
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// First and last page, the current page and its neighbours; null marks a gap
+const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+interface SortableHeadProps {
+  label: string;
+  sortKey: ResultSortKey;
+  sort: { key: ResultSortKey; ascending: boolean };
+  onSort: (key: ResultSortKey) => void;
+  className?: string;
+}
+
+const SortableHead: React.FC<SortableHeadProps> = ({ label, sortKey, sort, onSort, className }) => {
+  const Icon = sort.key !== sortKey ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(sortKey)}>
+        {label}
+        <Icon className="ml-1 h-3 w-3" />
+      </Button>
+    </TableHead>
+  );
+};
+
+const ExamResults: React.FC = () => {
+  const { examId } = useParams<{ examId: string }>();
+  const [examName, setExamName] = useState('');
+  const [results, setResults] = useState<SubmissionResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<ResultFilter>('all');
+  const [sort, setSort] = useState<{ key: ResultSortKey; ascending: boolean }>({ key: 'submittedAt', ascending: false });
+  const [page, setPage] = useState(1);
+  const [includeAnswers, setIncludeAnswers] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchResults = useCallback(async () => {
+    if (!examId) return;
+
+    try {
+      const { data: exam, error: examError } = await supabase
+        .from('exams')
+        .select('name')
+        .eq('id', examId)
+        .single();
+
+      if (examError) {
+        throw examError;
+      }
+
+      const submissions: SubmissionResult[] = [];
+      for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('submissions')
+          .select('id, status, grading_status, total_score, max_score, time_taken_minutes, started_at, submitted_at, violation_count, students(name, roll_number, email), proctoring_events(details)')
+          .eq('exam_id', examId)
+          .eq('proctoring_events.event_type', 'auto_submit')
+          .order('started_at', { ascending: false })
+          .order('id')
+          .range(from, from + FETCH_BATCH_SIZE - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        submissions.push(...(data || []).map(row => ({
+          id: row.id,
+          studentName: row.students?.name || 'Unknown student',
+          rollNumber: row.students?.roll_number || '—',
+          email: row.students?.email || '',
+          status: row.status,
+          gradingStatus: row.grading_status,
+          totalScore: row.total_score,
+          maxScore: row.max_score,
+          timeTakenMinutes: row.submitted_at ? row.time_taken_minutes : null,
+          startedAt: row.started_at,
+          submittedAt: row.submitted_at,
+          autoSubmitReason: getAutoSubmitReason(row.status, row.proctoring_events),
+          violationCount: row.violation_count
+        })));
+        if (!data || data.length < FETCH_BATCH_SIZE) break;
+      }
+
+      setExamName(exam.name);
+      setResults(submissions);
+    } catch (error) {
+      console.error('Error fetching results:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the results.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [examId, toast]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  const visibleResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return results
+      .filter(result => matchesResultFilter(result, filter))
+      .filter(result => !term
+        || result.studentName.toLowerCase().includes(term)
+        || result.rollNumber.toLowerCase().includes(term))
+      .sort((a, b) => compareResults(a, b, sort.key, sort.ascending));
+  }, [results, search, filter, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(visibleResults.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageResults = visibleResults.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  // Back to the first page whenever the list itself changes
+  useEffect(() => {
+    setPage(1);
+  }, [search, filter, sort]);
+
+  const handleSort = (key: ResultSortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, ascending: !prev.ascending }
+      : { key, ascending: key === 'studentName' || key === 'rollNumber' });
+  };
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  // The exam's questions in teacher order, and every answer given in the exam
+  const fetchAnswerColumns = async (): Promise<{ questions: ExportQuestion[]; responses: ExportResponse[] }> => {
+    const { data: questionRows, error: questionsError } = await supabase
+      .from('questions')
+      .select('id, question_type')
+      .eq('exam_id', examId)
+      .order('question_order')
+      .order('created_at');
+
+    if (questionsError) {
+      throw questionsError;
+    }
+
+    const responses: ExportResponse[] = [];
+    for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('responses')
+        .select('submission_id, question_id, selected_answer, source_code, score, submissions!inner(exam_id)')
+        .eq('submissions.exam_id', examId)
+        .order('id')
+        .range(from, from + FETCH_BATCH_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      responses.push(...(data || []).map(row => ({
+        submissionId: row.submission_id,
+        questionId: row.question_id,
+        selectedAnswer: row.selected_answer,
+        sourceCode: row.source_code,
+        score: row.score
+      })));
+      if (!data || data.length < FETCH_BATCH_SIZE) break;
+    }
+
+    return {
+      questions: (questionRows || []).map(row => ({ id: row.id, questionType: row.question_type as QuestionType })),
+      responses
+    };
+  };
+
+  const handleExport = async (fileType: 'csv' | 'xlsx') => {
+    setIsExporting(true);
+
+    try {
+      const answerColumns = includeAnswers ? await fetchAnswerColumns() : null;
+      const table = buildResultsTable(visibleResults, answerColumns?.questions, answerColumns?.responses);
+      const fileName = getExportFileName(examName);
+
+      if (fileType === 'csv') {
+        downloadCsv(table, fileName);
+      } else {
+        await downloadXlsx(table, fileName);
+      }
+    } catch (error) {
+      console.error('Error exporting results:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not export the results. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderScore = (result: SubmissionResult) => {
+    if (result.status === 'in_progress') {
+      return <span className="text-gray-500">—</span>;
+    }
+    if (result.gradingStatus === 'needs_grading' || result.totalScore === null) {
+      return <Badge variant="secondary">Needs grading</Badge>;
+    }
+    return (
+      <span className="font-medium">
+        {formatNumber(result.totalScore)}
+        {result.maxScore !== null && <span className="text-gray-500"> / {formatNumber(result.maxScore)}</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to={`/teacher/exams/${examId}`}
+        className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Exam
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Results{examName && `: ${examName}`}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name or roll number"
+                className="pl-9"
+              />
+            </div>
+            <Select value={filter} onValueChange={(value) => setFilter(value as ResultFilter)}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RESULT_FILTER_LABELS) as ResultFilter[]).map(option => (
+                  <SelectItem key={option} value={option}>
+                    {RESULT_FILTER_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col gap-3 rounded-lg border border-gray-200 p-3 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-3">
+              <Switch id="includeAnswers" checked={includeAnswers} onCheckedChange={setIncludeAnswers} />
+              <Label htmlFor="includeAnswers">Add each student's answer and result per question</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">Export {visibleResults.length} attempts:</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleExport('csv')}
+                disabled={isExporting || visibleResults.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleExport('xlsx')}
+                disabled={isExporting || visibleResults.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Excel
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading results...</p>
+          ) : visibleResults.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              {results.length === 0 ? 'Nobody has started this exam yet.' : 'No attempts match your search.'}
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableHead label="Student" sortKey="studentName" sort={sort} onSort={handleSort} />
+                    <SortableHead label="Roll No" sortKey="rollNumber" sort={sort} onSort={handleSort} />
+                    <SortableHead label="Score" sortKey="totalScore" sort={sort} onSort={handleSort} />
+                    <SortableHead label="Time Taken" sortKey="timeTakenMinutes" sort={sort} onSort={handleSort} />
+                    <SortableHead label="Submitted" sortKey="submittedAt" sort={sort} onSort={handleSort} />
+                    <TableHead>Auto-submitted</TableHead>
+                    <SortableHead label="Violations" sortKey="violationCount" sort={sort} onSort={handleSort} />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pageResults.map(result => (
+                    <TableRow key={result.id}>
+                      <TableCell className="font-medium">{result.studentName}</TableCell>
+                      <TableCell className="font-mono">{result.rollNumber}</TableCell>
+                      <TableCell>{renderScore(result)}</TableCell>
+                      <TableCell>
+                        {result.timeTakenMinutes !== null ? `${result.timeTakenMinutes} min` : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {result.submittedAt
+                          ? formatExamDateTime(result.submittedAt)
+                          : <Badge variant="outline">In progress</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {result.autoSubmitReason
+                          ? <Badge variant="secondary">{formatAutoSubmitReason(result.autoSubmitReason)}</Badge>
+                          : result.submittedAt ? 'No' : '—'}
+                      </TableCell>
+                      <TableCell>
+                        {result.violationCount > 0
+                          ? <Badge variant="destructive">{result.violationCount}</Badge>
+                          : 0}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-col items-center justify-between gap-2 md:flex-row">
+                <p className="text-sm text-gray-600">
+                  Showing {(currentPage - 1) * PAGE_SIZE + 1}–{(currentPage - 1) * PAGE_SIZE + pageResults.length} of {visibleResults.length}
+                </p>
+                {pageCount > 1 && (
+                  <Pagination className="mx-0 w-auto justify-end">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href="#"
+                          onClick={(e) => goToPage(e, currentPage - 1)}
+                          className={currentPage === 1 ? 'pointer-events-none opacity-50' : undefined}
+                        />
+                      </PaginationItem>
+                      {getPageNumbers(currentPage, pageCount).map((pageNumber, index) => (
+                        <PaginationItem key={pageNumber ?? `gap-${index}`}>
+                          {pageNumber === null ? (
+                            <PaginationEllipsis />
+                          ) : (
+                            <PaginationLink
+                              href="#"
+                              isActive={pageNumber === currentPage}
+                              onClick={(e) => goToPage(e, pageNumber)}
+                            >
+                              {pageNumber}
+                            </PaginationLink>
+                          )}
+                        </PaginationItem>
+                      ))}
+                      <PaginationItem>
+                        <PaginationNext
+                          href="#"
+                          onClick={(e) => goToPage(e, currentPage + 1)}
+                          className={currentPage === pageCount ? 'pointer-events-none opacity-50' : undefined}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExamResults;
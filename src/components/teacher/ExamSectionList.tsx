@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { fromSectionRow, getTotalSectionMinutes, type ExamSection } from '@/lib/exam-sections';
+import SectionEditorDialog, { type SectionDraft } from './SectionEditorDialog';
+
+interface ExamSectionListProps {
+  examId: string;
+  onSectionsChange: (sections: ExamSection[]) => void;
+}
+
+const ExamSectionList: React.FC<ExamSectionListProps> = ({ examId, onSectionsChange }) => {
+  const [sections, setSections] = useState<ExamSection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingSection, setEditingSection] = useState<ExamSection | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [sectionToDelete, setSectionToDelete] = useState<ExamSection | null>(null);
+  const { toast } = useToast();
+
+  const updateSections = useCallback((next: ExamSection[]) => {
+    setSections(next);
+    onSectionsChange(next);
+  }, [onSectionsChange]);
+
+  const fetchSections = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('exam_sections')
+        .select('*')
+        .eq('exam_id', examId)
+        .order('section_order')
+        .order('created_at');
+
+      if (error) {
+        throw error;
+      }
+
+      updateSections((data || []).map(fromSectionRow));
+    } catch (error) {
+      console.error('Error fetching sections:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load sections.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [examId, toast, updateSections]);
+
+  useEffect(() => {
+    fetchSections();
+  }, [fetchSections]);
+
+  const openEditor = (section: ExamSection | null) => {
+    setEditingSection(section);
+    setIsEditorOpen(true);
+  };
+
+  const handleSave = async (draft: SectionDraft) => {
+    setIsSaving(true);
+
+    const sectionRow = {
+      title: draft.title.trim(),
+      instructions: draft.instructions.trim(),
+      duration_minutes: Number(draft.durationMinutes)
+    };
+
+    try {
+      if (draft.id) {
+        const { error } = await supabase
+          .from('exam_sections')
+          .update(sectionRow)
+          .eq('id', draft.id);
+
+        if (error) {
+          throw error;
+        }
+      } else {
+        const nextOrder = sections.reduce((max, s) => Math.max(max, s.sectionOrder), 0) + 1;
+        const { error } = await supabase
+          .from('exam_sections')
+          .insert({ ...sectionRow, exam_id: examId, section_order: nextOrder });
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      toast({
+        title: "Section Saved",
+        description: draft.id ? "Your changes have been saved." : "The section was added to the exam.",
+      });
+      setIsEditorOpen(false);
+      await fetchSections();
+    } catch (error) {
+      console.error('Error saving section:', error);
+      toast({
+        title: "Save Failed",
+        description: "Could not save the section. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!sectionToDelete) return;
+
+    try {
+      const { error } = await supabase
+        .from('exam_sections')
+        .delete()
+        .eq('id', sectionToDelete.id);
+
+      if (error) {
+        throw error;
+      }
+
+      await persistOrder(sections.filter(s => s.id !== sectionToDelete.id));
+      toast({
+        title: "Section Deleted",
+        description: "Its questions now belong to the first section.",
+      });
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the section. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSectionToDelete(null);
+    }
+  };
+
+  // Renumbers section_order to 1..n and writes only the rows that changed
+  const persistOrder = async (ordered: ExamSection[]) => {
+    const renumbered = ordered.map((s, index) => ({ ...s, sectionOrder: index + 1 }));
+    updateSections(renumbered);
+
+    const changed = renumbered.filter((s, index) => ordered[index].sectionOrder !== s.sectionOrder);
+    for (const section of changed) {
+      const { error } = await supabase
+        .from('exam_sections')
+        .update({ section_order: section.sectionOrder })
+        .eq('id', section.id);
+
+      if (error) {
+        throw error;
+      }
+    }
+  };
+
+  const moveSection = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sections.length) return;
+
+    const reordered = [...sections];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      await persistOrder(reordered);
+    } catch (error) {
+      console.error('Error reordering sections:', error);
+      toast({
+        title: "Reorder Failed",
+        description: "Could not save the new order.",
+        variant: "destructive"
+      });
+      await fetchSections();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Sections ({sections.length})</CardTitle>
+        <Button variant="outline" onClick={() => openEditor(null)} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Add Section
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-gray-500">Loading sections...</p>
+        ) : sections.length === 0 ? (
+          <p className="text-gray-600">
+            No sections. Students see every question under one timer; add sections to time parts of the exam separately.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              The exam lasts {getTotalSectionMinutes(sections)} minutes in total; its own duration is not used.
+              Questions without a section are asked in the first one.
+            </p>
+            {sections.map((section, index) => (
+              <div key={section.id} className="flex items-start justify-between gap-4 rounded-lg border border-gray-200 p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{index + 1}. {section.title}</span>
+                    <Badge variant="secondary">{section.durationMinutes} min</Badge>
+                  </div>
+                  {section.instructions && (
+                    <p className="text-sm text-gray-600 line-clamp-2">{section.instructions}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveSection(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveSection(index, 1)}
+                    disabled={index === sections.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(section)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSectionToDelete(section)}
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+
+      <SectionEditorDialog
+        open={isEditorOpen}
+        section={editingSection}
+        isSaving={isSaving}
+        onOpenChange={setIsEditorOpen}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!sectionToDelete} onOpenChange={(open) => !open && setSectionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this section?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its questions are kept and move to the first section. Students already in this section lose its time limit.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ExamSectionList;
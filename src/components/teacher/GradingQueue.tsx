@@ -0,0 +1,457 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, CheckCircle, Save, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { isSameOutput, parseTestCases, parseTestResults, type TestCase, type TestResult } from '@/lib/code-runner';
+import { DEFAULT_ESSAY_POINTS, parseRubric, type RubricCriterion } from '@/lib/questions';
+import { countWords, sanitizeRichText } from '@/lib/rich-text';
+import RichContent from '@/components/RichContent';
+
+interface QueuedResponse {
+  id: string;
+  questionText: string;
+  graderComment: string;
+  gradedAt: string | null;
+  studentName: string;
+  rollNumber: string;
+}
+
+interface EssayResponse extends QueuedResponse {
+  questionType: 'essay';
+  answer: string;
+  rubric: RubricCriterion[];
+  rubricScores: number[] | null;
+}
+
+interface CodingResponse extends QueuedResponse {
+  questionType: 'coding';
+  sourceCode: string;
+  functionName: string;
+  testCases: TestCase[];
+  testResults: TestResult[] | null;
+  score: number | null; // share of the question; worked out from the reported outputs until confirmed
+}
+
+type GradableResponse = EssayResponse | CodingResponse;
+
+// An essay without a rubric is marked as a single criterion out of the default points
+const getCriteria = (rubric: RubricCriterion[]): RubricCriterion[] =>
+  rubric.length > 0 ? rubric : [{ criterion: 'Overall', points: DEFAULT_ESSAY_POINTS }];
+
+interface EssayGradingCardProps {
+  response: EssayResponse;
+  onGraded: (response: EssayResponse) => void;
+}
+
+const EssayGradingCard: React.FC<EssayGradingCardProps> = ({ response, onGraded }) => {
+  const criteria = getCriteria(response.rubric);
+  const [scores, setScores] = useState<string[]>(
+    criteria.map((_, index) => response.rubricScores?.[index]?.toString() ?? '')
+  );
+  const [comment, setComment] = useState(response.graderComment);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const totalAwarded = scores.reduce((sum, score) => sum + (Number(score) || 0), 0);
+  const totalAvailable = criteria.reduce((sum, criterion) => sum + criterion.points, 0);
+
+  const handleSave = async () => {
+    const awarded = scores.map(Number);
+    const invalidIndex = scores.findIndex((score, index) =>
+      !score.trim() || !Number.isFinite(awarded[index]) || awarded[index] < 0 || awarded[index] > criteria[index].points
+    );
+    if (invalidIndex !== -1) {
+      toast({
+        title: "Invalid Score",
+        description: `Give "${criteria[invalidIndex].criterion || `Criterion ${invalidIndex + 1}`}" a score between 0 and ${criteria[invalidIndex].points}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('grade_essay_response', {
+        p_response_id: response.id,
+        p_rubric_scores: awarded,
+        p_comment: comment
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      toast({
+        title: "Essay Marked",
+        description: `${response.studentName} scored ${totalAwarded} of ${totalAvailable}.`,
+      });
+      onGraded({
+        ...response,
+        rubricScores: awarded,
+        graderComment: comment.trim(),
+        gradedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error grading essay:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the marks.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">{response.studentName}</CardTitle>
+            <p className="text-sm text-gray-600">Roll No: {response.rollNumber}</p>
+          </div>
+          {response.gradedAt && <Badge variant="secondary">Marked</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RichContent source={response.questionText} className="font-medium text-gray-900" />
+
+        <div className="rounded-lg bg-gray-50 p-4 space-y-2">
+          {response.answer ? (
+            <div
+              className="text-gray-900 [&_ol]:list-decimal [&_ol]:pl-6 [&_ul]:list-disc [&_ul]:pl-6"
+              dangerouslySetInnerHTML={{ __html: sanitizeRichText(response.answer) }}
+            />
+          ) : (
+            <p className="text-gray-500 italic">No answer written.</p>
+          )}
+          <p className="text-xs text-gray-500">{countWords(response.answer)} words</p>
+        </div>
+
+        <div className="space-y-2">
+          {criteria.map((criterion, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <Label htmlFor={`${response.id}-${index}`} className="flex-1">
+                {criterion.criterion || `Criterion ${index + 1}`}
+              </Label>
+              <Input
+                id={`${response.id}-${index}`}
+                type="number"
+                min={0}
+                max={criterion.points}
+                step="0.5"
+                value={scores[index]}
+                onChange={(e) => setScores(prev => prev.map((score, i) => (i === index ? e.target.value : score)))}
+                className="w-24"
+              />
+              <span className="w-12 text-sm text-gray-600">/ {criterion.points}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${response.id}-comment`}>Comment (optional)</Label>
+          <Textarea
+            id={`${response.id}-comment`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-700">Total: {totalAwarded} / {totalAvailable}</span>
+          <Button onClick={handleSave} disabled={isSaving} className="flex items-center gap-2">
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saving...' : response.gradedAt ? 'Update Marks' : 'Save Marks'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface CodingGradingCardProps {
+  response: CodingResponse;
+  onGraded: (response: CodingResponse) => void;
+}
+
+const formatCall = (functionName: string, test: TestCase) =>
+  `${functionName}(${test.args.map(arg => JSON.stringify(arg)).join(', ')})`;
+
+// The automatic mark trusts outputs reported by the student's browser, so it only counts once confirmed here
+const CodingGradingCard: React.FC<CodingGradingCardProps> = ({ response, onGraded }) => {
+  const [percent, setPercent] = useState(response.score === null ? '' : String(Math.round(response.score * 1000) / 10));
+  const [comment, setComment] = useState(response.graderComment);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const passedCount = response.testCases
+    .filter((test, index) => isSameOutput(response.testResults?.[index]?.output, test.expected)).length;
+
+  const handleSave = async () => {
+    const awarded = Number(percent);
+    if (!percent.trim() || !Number.isFinite(awarded) || awarded < 0 || awarded > 100) {
+      toast({
+        title: "Invalid Score",
+        description: "Give a score between 0 and 100%.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('confirm_coding_response', {
+        p_response_id: response.id,
+        p_score: awarded / 100,
+        p_comment: comment
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      toast({
+        title: "Mark Confirmed",
+        description: `${response.studentName} scored ${awarded}%.`,
+      });
+      onGraded({
+        ...response,
+        score: awarded / 100,
+        graderComment: comment.trim(),
+        gradedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error confirming coding mark:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the mark.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">{response.studentName}</CardTitle>
+            <p className="text-sm text-gray-600">Roll No: {response.rollNumber}</p>
+          </div>
+          {response.gradedAt && <Badge variant="secondary">Marked</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RichContent source={response.questionText} className="font-medium text-gray-900" />
+
+        {response.sourceCode ? (
+          <pre className="overflow-x-auto rounded-lg bg-gray-900 p-3 font-mono text-xs text-gray-100">
+            {response.sourceCode}
+          </pre>
+        ) : (
+          <p className="text-gray-500 italic">No code submitted.</p>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            Reported outputs match {passedCount} of {response.testCases.length} tests.
+          </p>
+          {response.testCases.map((test, index) => {
+            const result = response.testResults?.[index];
+            const passed = isSameOutput(result?.output, test.expected);
+            return (
+              <div key={index} className="flex items-start gap-2 rounded-lg bg-gray-50 p-3 text-sm">
+                {passed
+                  ? <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                  : <XCircle className="h-4 w-4 mt-0.5 text-red-600" />}
+                <div className="font-mono space-y-1">
+                  <p className="text-gray-900">
+                    {formatCall(response.functionName, test)} → {JSON.stringify(test.expected)}
+                  </p>
+                  {!passed && (
+                    <p className="text-red-700">
+                      {result ? result.error || `Got ${result.actual}` : 'Not run'}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Label htmlFor={`${response.id}-score`} className="flex-1">Score</Label>
+          <Input
+            id={`${response.id}-score`}
+            type="number"
+            min={0}
+            max={100}
+            step="1"
+            value={percent}
+            onChange={(e) => setPercent(e.target.value)}
+            className="w-24"
+          />
+          <span className="w-12 text-sm text-gray-600">%</span>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${response.id}-comment`}>Comment (optional)</Label>
+          <Textarea
+            id={`${response.id}-comment`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving} className="flex items-center gap-2">
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saving...' : response.gradedAt ? 'Update Mark' : 'Confirm Mark'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Essay and coding answers from submitted attempts, waiting to be marked by hand
+const GradingQueue: React.FC = () => {
+  const { examId } = useParams<{ examId: string }>();
+  const [responses, setResponses] = useState<GradableResponse[]>([]);
+  const [showMarked, setShowMarked] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchResponses = useCallback(async () => {
+    if (!examId) return;
+
+    try {
+      let query = supabase
+        .from('responses')
+        .select('id, selected_answer, source_code, test_results, score, rubric_scores, grader_comment, graded_at, questions!inner(question_text, rubric, exam_id, question_type, question_order, function_name, test_cases), submissions!inner(submitted_at, students(name, roll_number))')
+        .eq('questions.exam_id', examId)
+        .in('questions.question_type', ['essay', 'coding'])
+        .not('submissions.submitted_at', 'is', null)
+        .order('created_at');
+
+      if (!showMarked) {
+        query = query.is('graded_at', null);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      setResponses((data || []).map((row): GradableResponse => {
+        const queued = {
+          id: row.id,
+          questionText: row.questions.question_text,
+          graderComment: row.grader_comment || '',
+          gradedAt: row.graded_at,
+          studentName: row.submissions.students?.name || 'Unknown student',
+          rollNumber: row.submissions.students?.roll_number || '—'
+        };
+
+        if (row.questions.question_type === 'coding') {
+          return {
+            ...queued,
+            questionType: 'coding',
+            sourceCode: row.source_code || '',
+            functionName: row.questions.function_name || '',
+            testCases: parseTestCases(row.questions.test_cases),
+            testResults: parseTestResults(row.test_results),
+            score: row.score
+          };
+        }
+
+        return {
+          ...queued,
+          questionType: 'essay',
+          answer: row.selected_answer || '',
+          rubric: parseRubric(row.questions.rubric),
+          rubricScores: Array.isArray(row.rubric_scores) ? row.rubric_scores.map(Number) : null
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching responses to grade:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the grading queue.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [examId, showMarked, toast]);
+
+  useEffect(() => {
+    fetchResponses();
+  }, [fetchResponses]);
+
+  const handleGraded = (graded: GradableResponse) => {
+    setResponses(prev => showMarked
+      ? prev.map(response => (response.id === graded.id ? graded : response))
+      : prev.filter(response => response.id !== graded.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to={`/teacher/exams/${examId}`}
+        className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Exam
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Grading Queue</CardTitle>
+            <div className="flex items-center gap-3">
+              <Switch id="showMarked" checked={showMarked} onCheckedChange={setShowMarked} />
+              <Label htmlFor="showMarked">Show marked answers</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600">
+            A submission's total score is published once every essay and coding answer in it has been marked.
+            Coding marks are worked out from the outputs the student's browser reported, so read the code before confirming them.
+          </p>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading answers...</p>
+      ) : responses.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          {showMarked ? 'No essays or coding answers have been submitted yet.' : 'All submitted answers are marked.'}
+        </p>
+      ) : (
+        responses.map(response => (response.questionType === 'coding'
+          ? <CodingGradingCard key={response.id} response={response} onGraded={handleGraded} />
+          : <EssayGradingCard key={response.id} response={response} onGraded={handleGraded} />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default GradingQueue;
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ImagePlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTeacherAuth } from '@/hooks/use-teacher-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { QUESTION_IMAGE_BUCKET, toImageMarkdown } from '@/lib/rich-content';
+
+interface ImageUploadButtonProps {
+  onUploaded: (markdown: string) => void;
+  label?: string;
+}
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Uploads an image to the teacher's folder in storage and hands back the Markdown that shows it
+const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({ onUploaded, label }) => {
+  const { teacher } = useTeacherAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !teacher) return;
+
+    if (file.size > MAX_IMAGE_BYTES) {
+      toast({
+        title: "Image Too Large",
+        description: "Images must be 5 MB or smaller.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const path = `${teacher.id}/${crypto.randomUUID()}.${extension}`;
+      const { error } = await supabase.storage
+        .from(QUESTION_IMAGE_BUCKET)
+        .upload(path, file, { contentType: file.type });
+
+      if (error) {
+        throw error;
+      }
+
+      const { data } = supabase.storage.from(QUESTION_IMAGE_BUCKET).getPublicUrl(path);
+      onUploaded(toImageMarkdown(data.publicUrl, file.name.replace(/\.[^.]+$/, '')));
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload the image.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+      <Button
+        type="button"
+        variant={label ? 'outline' : 'ghost'}
+        size={label ? 'sm' : 'icon'}
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+        className={label ? 'flex items-center gap-2' : undefined}
+        aria-label={label || 'Insert image'}
+        title={label || 'Insert image'}
+      >
+        <ImagePlus className="h-4 w-4" />
+        {label && (isUploading ? 'Uploading...' : label)}
+      </Button>
+    </>
+  );
+};
+
+export default ImageUploadButton;
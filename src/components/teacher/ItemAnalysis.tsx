@@ -0,0 +1,371 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ITEM_FLAG_LABELS,
+  analyzeItems,
+  buildItemAnalysisTable,
+  type AnalysisQuestion,
+  type AnalysisResponse,
+  type ItemStatistics,
+} from '@/lib/item-analysis';
+import { QUESTION_TYPE_LABELS, parseStringList, type QuestionType } from '@/lib/questions';
+import { downloadCsv, downloadXlsx, getExportFileName } from '@/lib/results-export';
+import RichContent from '@/components/RichContent';
+
+// PostgREST returns at most this many rows per request
+const FETCH_BATCH_SIZE = 1000;
+
+const KEY_COLOR = '#16a34a';
+const DISTRACTOR_COLOR = '#94a3b8';
+const FLAGGED_COLOR = '#dc2626';
+
+const overviewConfig = {
+  difficulty: { label: 'Difficulty (p)', color: '#2563eb' },
+  discrimination: { label: 'Discrimination', color: '#f59e0b' }
+} satisfies ChartConfig;
+
+const optionConfig = {
+  share: { label: 'Picked by (%)' }
+} satisfies ChartConfig;
+
+const formatStatistic = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const ItemAnalysis: React.FC = () => {
+  const { examId } = useParams<{ examId: string }>();
+  const [examName, setExamName] = useState('');
+  const [questions, setQuestions] = useState<AnalysisQuestion[]>([]);
+  const [responses, setResponses] = useState<AnalysisResponse[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchAnalysis = useCallback(async () => {
+    if (!examId) return;
+
+    try {
+      const { data: exam, error: examError } = await supabase
+        .from('exams')
+        .select('name')
+        .eq('id', examId)
+        .single();
+
+      if (examError) {
+        throw examError;
+      }
+
+      const { data: questionRows, error: questionsError } = await supabase
+        .from('questions')
+        .select('id, question_text, question_type, options, correct_answer')
+        .eq('exam_id', examId)
+        .order('question_order')
+        .order('created_at');
+
+      if (questionsError) {
+        throw questionsError;
+      }
+
+      // Answers from attempts still being written are not part of the analysis
+      const responseRows: AnalysisResponse[] = [];
+      for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('responses')
+          .select('submission_id, question_id, selected_answer, is_correct, marks_awarded, submissions!inner(exam_id, status)')
+          .eq('submissions.exam_id', examId)
+          .neq('submissions.status', 'in_progress')
+          .order('id')
+          .range(from, from + FETCH_BATCH_SIZE - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        responseRows.push(...(data || []).map(row => ({
+          submissionId: row.submission_id,
+          questionId: row.question_id,
+          selectedAnswer: row.selected_answer,
+          isCorrect: row.is_correct,
+          marksAwarded: row.marks_awarded
+        })));
+        if (!data || data.length < FETCH_BATCH_SIZE) break;
+      }
+
+      setExamName(exam.name);
+      setQuestions((questionRows || []).map(row => ({
+        id: row.id,
+        questionText: row.question_text,
+        questionType: row.question_type as QuestionType,
+        options: parseStringList(row.options),
+        correctAnswer: (row.correct_answer || '').toUpperCase()
+      })));
+      setResponses(responseRows);
+    } catch (error) {
+      console.error('Error fetching item analysis:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the item analysis.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [examId, toast]);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [fetchAnalysis]);
+
+  const items = useMemo(() => analyzeItems(questions, responses), [questions, responses]);
+  const attemptCount = useMemo(() => new Set(responses.map(response => response.submissionId)).size, [responses]);
+  const flaggedCount = items.filter(item => item.flags.length > 0).length;
+
+  // Open the first flagged question, since that is the one worth looking at
+  const selectedItem: ItemStatistics | undefined =
+    items.find(item => item.questionId === selectedId)
+    ?? items.find(item => item.flags.length > 0 && item.options.length > 0)
+    ?? items.find(item => item.options.length > 0);
+
+  const overviewData = items.map(item => ({
+    question: `Q${item.questionNumber}`,
+    difficulty: item.difficulty,
+    discrimination: item.discrimination
+  }));
+
+  const optionData = selectedItem
+    ? [
+        ...selectedItem.options.map(option => ({
+          option: option.letter,
+          share: Math.round(option.share * 1000) / 10,
+          fill: option.isKey ? KEY_COLOR : option.beatsKey ? FLAGGED_COLOR : DISTRACTOR_COLOR
+        })),
+        { option: 'None', share: Math.round((selectedItem.noAnswerShare ?? 0) * 1000) / 10, fill: DISTRACTOR_COLOR }
+      ]
+    : [];
+
+  const handleExport = async (fileType: 'csv' | 'xlsx') => {
+    setIsExporting(true);
+
+    try {
+      const table = buildItemAnalysisTable(items);
+      const fileName = getExportFileName(examName, 'item-analysis');
+
+      if (fileType === 'csv') {
+        downloadCsv(table, fileName);
+      } else {
+        await downloadXlsx(table, fileName);
+      }
+    } catch (error) {
+      console.error('Error exporting item analysis:', error);
+      toast({
+        title: "Export Failed",
+        description: "Could not export the item analysis. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to={`/teacher/exams/${examId}`}
+        className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Exam
+      </Link>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Item Analysis{examName && `: ${examName}`}</CardTitle>
+            {!isLoading && (
+              <p className="mt-1 text-sm text-gray-600">
+                Based on {attemptCount} submitted attempt{attemptCount === 1 ? '' : 's'}. {flaggedCount} of {items.length} questions flagged.
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport('csv')}
+              disabled={isExporting || items.length === 0}
+              className="flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport('xlsx')}
+              disabled={isExporting || items.length === 0}
+              className="flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Excel
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-gray-500">Loading item analysis...</p>
+          ) : attemptCount === 0 ? (
+            <p className="text-gray-600">No attempts have been submitted yet.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                Difficulty is the share of students who got a question right. Discrimination compares each
+                question with the rest of the exam: near zero or negative means strong and weak students did
+                about as well on it.
+              </p>
+              <ChartContainer config={overviewConfig} className="aspect-auto h-72 w-full">
+                <BarChart data={overviewData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="question" tickLine={false} axisLine={false} />
+                  <YAxis
+                    domain={[(dataMin: number) => Math.min(0, Math.floor(dataMin * 10) / 10), 1]}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <ReferenceLine y={0} stroke="#64748b" />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="difficulty" fill="var(--color-difficulty)" radius={2} />
+                  <Bar dataKey="discrimination" fill="var(--color-discrimination)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Responses</TableHead>
+                    <TableHead>Difficulty</TableHead>
+                    <TableHead>Discrimination</TableHead>
+                    <TableHead>Flags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map(item => (
+                    <TableRow
+                      key={item.questionId}
+                      onClick={() => setSelectedId(item.questionId)}
+                      className={`cursor-pointer ${item.questionId === selectedItem?.questionId ? 'bg-blue-50' : ''}`}
+                    >
+                      <TableCell className="font-medium">Q{item.questionNumber}</TableCell>
+                      <TableCell>{QUESTION_TYPE_LABELS[item.questionType]}</TableCell>
+                      <TableCell>{item.responseCount}</TableCell>
+                      <TableCell>{formatStatistic(item.difficulty)}</TableCell>
+                      <TableCell>{formatStatistic(item.discrimination)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {item.flags.map(flag => (
+                            <Badge
+                              key={flag}
+                              variant={flag === 'distractor_beats_key' || flag === 'negative_discrimination' ? 'destructive' : 'secondary'}
+                            >
+                              {ITEM_FLAG_LABELS[flag]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedItem && attemptCount > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Question {selectedItem.questionNumber}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RichContent source={selectedItem.questionText} className="text-gray-900" />
+            {selectedItem.options.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                {QUESTION_TYPE_LABELS[selectedItem.questionType]} questions have no options to compare.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                <ChartContainer config={optionConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={optionData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="option" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} unit="%" />
+                    <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                    <Bar dataKey="share" radius={2}>
+                      {optionData.map(entry => (
+                        <Cell key={entry.option} fill={entry.fill} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Option</TableHead>
+                      <TableHead>Picked by</TableHead>
+                      <TableHead>Discrimination</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedItem.options.map(option => (
+                      <TableRow key={option.letter}>
+                        <TableCell>
+                          <span className="font-medium">{option.letter}.</span> {option.text}
+                          {option.isKey && <Badge className="ml-2">Key</Badge>}
+                        </TableCell>
+                        <TableCell>{formatPercent(option.share)}</TableCell>
+                        <TableCell>{formatStatistic(option.discrimination)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell className="text-gray-600">No answer</TableCell>
+                      <TableCell>{formatPercent(selectedItem.noAnswerShare)}</TableCell>
+                      <TableCell>—</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ItemAnalysis;
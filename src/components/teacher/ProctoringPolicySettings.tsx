@@ -0,0 +1,68 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { describeProctoringPolicy, type ProctoringPolicy } from '@/lib/proctoring-policy';
+
+interface ProctoringPolicySettingsProps {
+  policy: ProctoringPolicy;
+  onChange: (policy: ProctoringPolicy) => void;
+}
+
+const ProctoringPolicySettings: React.FC<ProctoringPolicySettingsProps> = ({ policy, onChange }) => {
+  const update = <K extends keyof ProctoringPolicy>(field: K, value: ProctoringPolicy[K]) => {
+    onChange({ ...policy, [field]: value });
+  };
+
+  const toCount = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Switch
+          id="requireFullscreen"
+          checked={policy.requireFullscreen}
+          onCheckedChange={(checked) => update('requireFullscreen', checked)}
+        />
+        <Label htmlFor="requireFullscreen">Require fullscreen; leaving it is a violation</Label>
+      </div>
+      <div className="flex items-center gap-3">
+        <Switch
+          id="countTabSwitches"
+          checked={policy.countTabSwitches}
+          onCheckedChange={(checked) => update('countTabSwitches', checked)}
+        />
+        <Label htmlFor="countTabSwitches">Count tab switches as violations</Label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="maxWarnings">Warnings before auto-submit</Label>
+          <Input
+            id="maxWarnings"
+            type="number"
+            min={0}
+            value={policy.maxWarnings}
+            onChange={(e) => update('maxWarnings', toCount(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="gracePeriodSeconds">Grace period to return (seconds)</Label>
+          <Input
+            id="gracePeriodSeconds"
+            type="number"
+            min={0}
+            value={policy.gracePeriodSeconds}
+            onChange={(e) => update('gracePeriodSeconds', toCount(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Students see: {describeProctoringPolicy(policy)} Every event is logged either way.
+      </p>
+    </div>
+  );
+};
+
+export default ProctoringPolicySettings;
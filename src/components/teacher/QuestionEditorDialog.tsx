@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Plus, X } from 'lucide-react';
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  OPTION_LETTERS,
+  QUESTION_TYPE_LABELS,
+  SCORING_RULE_LABELS,
+  allowsNegativeMarks,
+  emptyQuestionDraft,
+  getOptionLetters,
+  isChoiceQuestion,
+  toggleAnswerLetter,
+  validateQuestion,
+  type OptionLetter,
+  type QuestionDraft,
+  type QuestionType,
+  type ScoringRule,
+} from '@/lib/questions';
+import RichContent from '@/components/RichContent';
+import type { ExamSection } from '@/lib/exam-sections';
+import CodingAnswerFields from './CodingAnswerFields';
+import EssayAnswerFields from './EssayAnswerFields';
+import ImageUploadButton from './ImageUploadButton';
+import TypedAnswerFields from './TypedAnswerFields';
+
+// Uploaded images go on a line of their own after whatever is already written
+const appendLine = (text: string, line: string) => (text.trim() ? `${text.trimEnd()}\n${line}` : line);
+
+// Select items cannot have an empty value, so "no section" needs a stand-in
+const NO_SECTION = 'none';
+
+// A blank marks field falls back to the exam's default
+const toOptionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+interface QuestionEditorDialogProps {
+  open: boolean;
+  question: QuestionDraft | null;
+  isSaving: boolean;
+  defaultMarks: number;
+  defaultNegativeMarks: number;
+  sections: ExamSection[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (question: QuestionDraft) => void;
+}
+
+const QuestionEditorDialog: React.FC<QuestionEditorDialogProps> = ({
+  open,
+  question,
+  isSaving,
+  defaultMarks,
+  defaultNegativeMarks,
+  sections,
+  onOpenChange,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<QuestionDraft>(emptyQuestionDraft());
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(question ? { ...question } : emptyQuestionDraft());
+      setErrors([]);
+    }
+  }, [open, question]);
+
+  const updateField = <K extends keyof QuestionDraft>(field: K, value: QuestionDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const changeQuestionType = (questionType: QuestionType) => {
+    setDraft(prev => {
+      // Letters mean nothing to a typed answer and vice versa
+      if (isChoiceQuestion(prev.questionType) !== isChoiceQuestion(questionType)) {
+        return {
+          ...prev,
+          questionType,
+          correctAnswer: '',
+          options: isChoiceQuestion(questionType) ? emptyQuestionDraft().options : prev.options
+        };
+      }
+      // A single-answer question keeps at most the first of several ticked answers
+      return {
+        ...prev,
+        questionType,
+        correctAnswer: questionType === 'single' ? prev.correctAnswer.slice(0, 1) : prev.correctAnswer
+      };
+    });
+  };
+
+  const isMultiple = draft.questionType === 'multiple';
+
+  const updateOption = (index: number, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      options: prev.options.map((option, i) => (i === index ? value : option))
+    }));
+  };
+
+  const addOption = () => {
+    setDraft(prev => ({ ...prev, options: [...prev.options, ''] }));
+  };
+
+  // Letters are positions, so answers after the removed option move up one letter
+  const removeOption = (index: number) => {
+    setDraft(prev => ({
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+      correctAnswer: prev.correctAnswer
+        .split('')
+        .map(letter => OPTION_LETTERS.indexOf(letter as OptionLetter))
+        .filter(position => position !== index)
+        .map(position => OPTION_LETTERS[position > index ? position - 1 : position])
+        .join('')
+    }));
+  };
+
+  const renderOptionInput = (index: number) => {
+    const letter = OPTION_LETTERS[index];
+    return (
+      <>
+        <Label htmlFor={`correct-${letter}`} className="w-4 font-medium">{letter}.</Label>
+        <Input
+          value={draft.options[index]}
+          onChange={(e) => updateOption(index, e.target.value)}
+          placeholder={`Option ${letter}`}
+        />
+        <ImageUploadButton
+          onUploaded={(image) => setDraft(prev => ({
+            ...prev,
+            options: prev.options.map((option, i) => (i === index ? appendLine(option, image) : option))
+          }))}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => removeOption(index)}
+          disabled={draft.options.length <= MIN_OPTIONS}
+          aria-label={`Remove option ${letter}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </>
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validateQuestion(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question?.id ? 'Edit Question' : 'Add Question'}</DialogTitle>
+          <DialogDescription>
+            Write the question and its answer key. Choice questions take between {MIN_OPTIONS} and {MAX_OPTIONS} options.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="questionText">Question</Label>
+              <ImageUploadButton
+                label="Insert Image"
+                onUploaded={(image) => setDraft(prev => ({ ...prev, questionText: appendLine(prev.questionText, image) }))}
+              />
+            </div>
+            <Textarea
+              id="questionText"
+              rows={4}
+              value={draft.questionText}
+              onChange={(e) => updateField('questionText', e.target.value)}
+              className="font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500">
+              {'Markdown works in the question and options: **bold**, `code`, fenced code blocks with a language (```python) and LaTeX as $x^2$ or $$\\frac{a}{b}$$.'}
+            </p>
+            {draft.questionText.trim() && (
+              <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                <p className="mb-2 text-xs font-medium uppercase text-gray-500">Preview</p>
+                <RichContent source={draft.questionText} className="text-gray-900" />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Question Type</Label>
+              <Select value={draft.questionType} onValueChange={(value) => changeQuestionType(value as QuestionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {sections.length > 0 && (
+              <div className="space-y-2">
+                <Label>Section</Label>
+                <Select
+                  value={draft.sectionId ?? NO_SECTION}
+                  onValueChange={(value) => updateField('sectionId', value === NO_SECTION ? null : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SECTION}>None (asked in the first section)</SelectItem>
+                    {sections.map(section => (
+                      <SelectItem key={section.id} value={section.id}>{section.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {isMultiple && (
+              <div className="space-y-2">
+                <Label>Scoring</Label>
+                <Select value={draft.scoringRule} onValueChange={(value) => updateField('scoringRule', value as ScoringRule)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SCORING_RULE_LABELS).map(([rule, label]) => (
+                      <SelectItem key={rule} value={rule}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {draft.questionType === 'coding' ? (
+            <CodingAnswerFields
+              question={draft}
+              onChange={(changes) => setDraft(prev => ({ ...prev, ...changes }))}
+            />
+          ) : draft.questionType === 'essay' ? (
+            <EssayAnswerFields
+              question={draft}
+              onChange={(changes) => setDraft(prev => ({ ...prev, ...changes }))}
+            />
+          ) : !isChoiceQuestion(draft.questionType) ? (
+            <TypedAnswerFields
+              question={draft}
+              onChange={(changes) => setDraft(prev => ({ ...prev, ...changes }))}
+            />
+          ) : (
+            <div className="space-y-2">
+              <Label>{isMultiple ? 'Options (tick every correct answer)' : 'Options (select the correct answer)'}</Label>
+              {isMultiple ? (
+                <div className="space-y-2">
+                  {getOptionLetters(draft.options.length).map((letter, index) => (
+                    <div key={letter} className="flex items-center gap-3">
+                      <Checkbox
+                        id={`correct-${letter}`}
+                        checked={draft.correctAnswer.includes(letter)}
+                        onCheckedChange={() => updateField('correctAnswer', toggleAnswerLetter(draft.correctAnswer, letter))}
+                      />
+                      {renderOptionInput(index)}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <RadioGroup
+                  value={draft.correctAnswer}
+                  onValueChange={(value) => updateField('correctAnswer', value)}
+                  className="space-y-2"
+                >
+                  {getOptionLetters(draft.options.length).map((letter, index) => (
+                    <div key={letter} className="flex items-center gap-3">
+                      <RadioGroupItem value={letter} id={`correct-${letter}`} />
+                      {renderOptionInput(index)}
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addOption}
+                disabled={draft.options.length >= MAX_OPTIONS}
+                className="flex items-center gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                Add Option
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="topicTag">Topic Tag</Label>
+              <Input
+                id="topicTag"
+                value={draft.topicTag}
+                onChange={(e) => updateField('topicTag', e.target.value)}
+                placeholder="e.g., Arrays"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="marks">Marks</Label>
+              <Input
+                id="marks"
+                type="number"
+                min={0}
+                step="any"
+                value={draft.marks ?? ''}
+                onChange={(e) => updateField('marks', toOptionalNumber(e.target.value))}
+                placeholder={`Exam default (${defaultMarks})`}
+              />
+            </div>
+            {allowsNegativeMarks(draft.questionType) && (
+              <div className="space-y-2">
+                <Label htmlFor="negativeMarks">Negative Marks</Label>
+                <Input
+                  id="negativeMarks"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={draft.negativeMarks ?? ''}
+                  onChange={(e) => updateField('negativeMarks', toOptionalNumber(e.target.value))}
+                  placeholder={`Exam default (${defaultNegativeMarks})`}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="explanation">Explanation (optional)</Label>
+            <Textarea
+              id="explanation"
+              rows={3}
+              value={draft.explanation}
+              onChange={(e) => updateField('explanation', e.target.value)}
+              placeholder="Why the answer is right. Students see this in the answer review if you release it."
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {errors.map(error => (
+                <p key={error} className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Question'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionEditorDialog;
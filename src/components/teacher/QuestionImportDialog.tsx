@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  IMPORT_FORMAT_LABELS,
+  detectImportFormat,
+  parseQuestionImport,
+  type ImportFormat,
+  type ImportedQuestion,
+} from '@/lib/question-import';
+import { QTI_FORMAT_LABEL, parseQtiPackage } from '@/lib/qti';
+import { QUESTION_TYPE_LABELS, isChoiceQuestion, toQuestionRow, type QuestionDraft } from '@/lib/questions';
+
+// Text formats can be pasted; a QTI package is a zip and has to be chosen as a file
+type SourceFormat = ImportFormat | 'qti';
+
+const FORMAT_LABELS: Record<SourceFormat, string> = { ...IMPORT_FORMAT_LABELS, qti: QTI_FORMAT_LABEL };
+
+const FORMAT_HINTS: Record<SourceFormat, string> = {
+  csv: 'One question per row: question, option A, option B, option C, option D, answer (e.g. B or A,C), topic tag.',
+  aiken: 'The question, then options as "A. text" on their own lines, then "ANSWER: B". Leave a blank line between questions.',
+  gift: 'Multiple choice, true/false, short answer, numeric and essay questions. Matching questions are not supported.',
+  qti: 'A .zip exported from Moodle, Canvas or another exam. Choice, text entry and essay items are imported, with topic tags taken from item keywords.'
+};
+
+const describeAnswer = (draft: QuestionDraft) => {
+  if (isChoiceQuestion(draft.questionType)) return draft.correctAnswer || '—';
+  if (draft.questionType === 'numeric') {
+    return draft.answerTolerance ? `${draft.correctAnswer} ± ${draft.answerTolerance}` : draft.correctAnswer;
+  }
+  if (draft.questionType === 'short_text') return [draft.correctAnswer, ...draft.acceptedAnswers].join(' / ');
+  return '—';
+};
+
+interface QuestionImportDialogProps {
+  open: boolean;
+  examId: string;
+  nextQuestionOrder: number;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const QuestionImportDialog: React.FC<QuestionImportDialogProps> = ({
+  open,
+  examId,
+  nextQuestionOrder,
+  onOpenChange,
+  onImported
+}) => {
+  const [format, setFormat] = useState<SourceFormat>('csv');
+  const [source, setSource] = useState('');
+  const [packageQuestions, setPackageQuestions] = useState<ImportedQuestion[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setSource('');
+      setPackageQuestions([]);
+    }
+  }, [open]);
+
+  const parsedText = useMemo(
+    () => (format !== 'qti' && source.trim() ? parseQuestionImport(source, format) : []),
+    [source, format]
+  );
+  const parsed = format === 'qti' ? packageQuestions : parsedText;
+  const validQuestions = parsed.filter(question => question.errors.length === 0);
+  const invalidCount = parsed.length - validQuestions.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      setFormat(detectImportFormat(file.name));
+      setSource(await file.text());
+      return;
+    }
+
+    try {
+      const { questions } = parseQtiPackage(new Uint8Array(await file.arrayBuffer()));
+      setFormat('qti');
+      setPackageQuestions(questions);
+    } catch (error) {
+      console.error('Error reading QTI package:', error);
+      toast({
+        title: "Unreadable Package",
+        description: "That file is not a valid zip. Choose a QTI 2.1 package exported from another system.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+
+    try {
+      const { error } = await supabase
+        .from('questions')
+        .insert(validQuestions.map((question, index) => toQuestionRow(question.draft, examId, nextQuestionOrder + index)));
+
+      if (error) {
+        throw error;
+      }
+
+      toast({
+        title: "Questions Imported",
+        description: `${validQuestions.length} question${validQuestions.length === 1 ? ' was' : 's were'} added to the exam.`,
+      });
+      onOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast({
+        title: "Import Failed",
+        description: "No questions were imported. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Questions are added after the ones already in the exam. Check the preview before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as SourceFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as SourceFormat[]).map(option => (
+                    <SelectItem key={option} value={option}>
+                      {FORMAT_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="importFile">File</Label>
+              <Input id="importFile" type="file" accept=".csv,.txt,.gift,.zip" onChange={handleFileChange} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {format !== 'qti' && (
+              <>
+                <Label htmlFor="importSource">Questions</Label>
+                <Textarea
+                  id="importSource"
+                  rows={8}
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  placeholder="Choose a file or paste the questions here."
+                  className="font-mono text-sm"
+                />
+              </>
+            )}
+            <p className="text-xs text-gray-500">{FORMAT_HINTS[format]}</p>
+          </div>
+
+          {parsed.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {parsed.length} question{parsed.length === 1 ? '' : 's'} found
+                {invalidCount > 0 && `; ${invalidCount} with errors will be skipped`}.
+              </p>
+              <div className="max-h-80 overflow-y-auto rounded-lg border border-gray-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{format === 'qti' ? 'Item' : 'Line'}</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Answer</TableHead>
+                      <TableHead>Topic</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {parsed.map(({ line, draft, errors }) => (
+                      <TableRow key={line} className={errors.length > 0 ? 'bg-red-50' : undefined}>
+                        <TableCell className="font-mono">{line}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{QUESTION_TYPE_LABELS[draft.questionType]}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate" title={draft.questionText}>
+                          {draft.questionText || '—'}
+                        </TableCell>
+                        <TableCell className="font-mono">{describeAnswer(draft)}</TableCell>
+                        <TableCell>{draft.topicTag || '—'}</TableCell>
+                        <TableCell>
+                          {errors.length === 0 ? (
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <ul className="space-y-1 text-xs text-red-700">
+                              {errors.map(error => (
+                                <li key={error} className="flex items-start gap-1">
+                                  <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                  {error}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || validQuestions.length === 0}>
+            {isImporting
+              ? 'Importing...'
+              : `Import ${validQuestions.length} Question${validQuestions.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionImportDialog;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { supabase } from '@/integrations/supabase/client';
+import type { DrawRule, PoolMode } from '@/lib/question-pool';
+
+interface QuestionPoolSettingsProps {
+  examId: string;
+  mode: PoolMode;
+  drawCount: string;
+  drawRules: DrawRule[];
+  onModeChange: (mode: PoolMode) => void;
+  onDrawCountChange: (drawCount: string) => void;
+  onDrawRulesChange: (drawRules: DrawRule[]) => void;
+}
+
+const QuestionPoolSettings: React.FC<QuestionPoolSettingsProps> = ({
+  examId,
+  mode,
+  drawCount,
+  drawRules,
+  onModeChange,
+  onDrawCountChange,
+  onDrawRulesChange
+}) => {
+  const [topicCounts, setTopicCounts] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    const fetchTopicCounts = async () => {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('topic_tag')
+        .eq('exam_id', examId);
+
+      if (error) {
+        console.error('Error fetching question topics:', error);
+        return;
+      }
+
+      const counts = new Map<string, number>();
+      (data || []).forEach(({ topic_tag }) => {
+        const topic = topic_tag || '';
+        counts.set(topic, (counts.get(topic) || 0) + 1);
+      });
+      setTopicCounts(counts);
+    };
+
+    fetchTopicCounts();
+  }, [examId]);
+
+  const poolSize = Array.from(topicCounts.values()).reduce((sum, count) => sum + count, 0);
+
+  const getRuleCount = (topicTag: string) =>
+    drawRules.find(rule => rule.topicTag === topicTag)?.count ?? 0;
+
+  const setRuleCount = (topicTag: string, value: string) => {
+    const count = Math.max(0, Math.min(Number(value) || 0, topicCounts.get(topicTag) || 0));
+    const others = drawRules.filter(rule => rule.topicTag !== topicTag);
+    onDrawRulesChange(count > 0 ? [...others, { topicTag, count }] : others);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        The pool holds {poolSize} question{poolSize === 1 ? '' : 's'}. Each attempt keeps the questions it was given.
+      </p>
+
+      <RadioGroup value={mode} onValueChange={(value) => onModeChange(value as PoolMode)} className="space-y-2">
+        <div className="flex items-center gap-3">
+          <RadioGroupItem value="all" id="pool-all" />
+          <Label htmlFor="pool-all">Every student gets every question</Label>
+        </div>
+        <div className="flex items-center gap-3">
+          <RadioGroupItem value="random" id="pool-random" />
+          <Label htmlFor="pool-random">Draw a random subset</Label>
+          {mode === 'random' && (
+            <Input
+              type="number"
+              min={1}
+              max={poolSize}
+              value={drawCount}
+              onChange={(e) => onDrawCountChange(e.target.value)}
+              className="w-24"
+            />
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <RadioGroupItem value="by-topic" id="pool-by-topic" />
+          <Label htmlFor="pool-by-topic">Draw a set number from each topic</Label>
+        </div>
+      </RadioGroup>
+
+      {mode === 'by-topic' && (
+        <div className="space-y-2 pl-7">
+          {topicCounts.size === 0 ? (
+            <p className="text-sm text-gray-500">Add questions with topic tags first.</p>
+          ) : (
+            Array.from(topicCounts.entries()).map(([topicTag, available]) => (
+              <div key={topicTag} className="flex items-center gap-3">
+                <Input
+                  type="number"
+                  min={0}
+                  max={available}
+                  value={getRuleCount(topicTag)}
+                  onChange={(e) => setRuleCount(topicTag, e.target.value)}
+                  className="w-24"
+                />
+                <span className="text-sm text-gray-700">
+                  of {available} from <span className="font-medium">{topicTag || 'Untagged'}</span>
+                </span>
+              </div>
+            ))
+          )}
+          <p className="text-sm text-gray-600">
+            Each student gets {drawRules.reduce((sum, rule) => sum + rule.count, 0)} questions.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionPoolSettings;
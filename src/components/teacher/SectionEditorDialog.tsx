@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle } from 'lucide-react';
+import type { ExamSection } from '@/lib/exam-sections';
+
+export interface SectionDraft {
+  id?: string;
+  title: string;
+  instructions: string;
+  durationMinutes: string;
+}
+
+interface SectionEditorDialogProps {
+  open: boolean;
+  section: ExamSection | null;
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (section: SectionDraft) => void;
+}
+
+const emptySectionDraft: SectionDraft = {
+  title: '',
+  instructions: '',
+  durationMinutes: '30'
+};
+
+const validateSection = (section: SectionDraft): string | null => {
+  if (!section.title.trim()) {
+    return 'Section title is required';
+  }
+  const duration = Number(section.durationMinutes);
+  if (!Number.isInteger(duration) || duration <= 0) {
+    return 'Duration must be a whole number of minutes';
+  }
+  return null;
+};
+
+const SectionEditorDialog: React.FC<SectionEditorDialogProps> = ({
+  open,
+  section,
+  isSaving,
+  onOpenChange,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<SectionDraft>(emptySectionDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(section
+        ? {
+            id: section.id,
+            title: section.title,
+            instructions: section.instructions,
+            durationMinutes: String(section.durationMinutes)
+          }
+        : emptySectionDraft);
+      setError(null);
+    }
+  }, [open, section]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateSection(draft);
+    setError(validationError);
+    if (!validationError) {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{section ? 'Edit Section' : 'Add Section'}</DialogTitle>
+          <DialogDescription>
+            Students sit one section at a time and cannot return to a section once they leave it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sectionTitle">Title</Label>
+            <Input
+              id="sectionTitle"
+              value={draft.title}
+              onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="e.g., Aptitude"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sectionDuration">Time Limit (minutes)</Label>
+            <Input
+              id="sectionDuration"
+              type="number"
+              min={1}
+              value={draft.durationMinutes}
+              onChange={(e) => setDraft(prev => ({ ...prev, durationMinutes: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sectionInstructions">Instructions (optional)</Label>
+            <Textarea
+              id="sectionInstructions"
+              rows={4}
+              value={draft.instructions}
+              onChange={(e) => setDraft(prev => ({ ...prev, instructions: e.target.value }))}
+              placeholder="Shown to students at the top of the section. Markdown is supported."
+            />
+          </div>
+
+          {error && (
+            <p className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Section'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SectionEditorDialog;
@@ -0,0 +1,201 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Clock, FileText, Plus, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTeacherAuth } from '@/hooks/use-teacher-auth';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { parseQtiPackage } from '@/lib/qti';
+import { toQuestionRow } from '@/lib/questions';
+
+// An imported exam starts as a draft with a random code the teacher can change
+const generateAccessCode = () => crypto.randomUUID().replace(/-/g, '').slice(0, 8).toUpperCase();
+
+const getMostCommonTopic = (topicTags: string[]) => {
+  const counts = new Map<string, number>();
+  topicTags.filter(Boolean).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  return Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const TeacherDashboard: React.FC = () => {
+  const { teacher } = useTeacherAuth();
+  const [exams, setExams] = useState<Tables<'exams'>[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const packageInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!teacher) return;
+
+    const fetchExams = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('exams')
+          .select('*')
+          .eq('teacher_id', teacher.id)
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          throw error;
+        }
+
+        setExams(data || []);
+      } catch (error) {
+        console.error('Error fetching exams:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your exams.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchExams();
+  }, [teacher, toast]);
+
+  const handlePackageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !teacher) return;
+
+    setIsImporting(true);
+
+    try {
+      const { title, questions } = parseQtiPackage(new Uint8Array(await file.arrayBuffer()));
+      const validQuestions = questions.filter(question => question.errors.length === 0);
+      if (validQuestions.length === 0) {
+        toast({
+          title: "Nothing to Import",
+          description: "The package has no choice, text entry or essay items that could be read.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const { data: exam, error } = await supabase
+        .from('exams')
+        .insert({
+          name: title || file.name.replace(/\.zip$/i, ''),
+          topic: getMostCommonTopic(validQuestions.map(question => question.draft.topicTag)) || 'Imported',
+          access_code: generateAccessCode(),
+          status: 'draft',
+          teacher_id: teacher.id
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const { error: questionsError } = await supabase
+        .from('questions')
+        .insert(validQuestions.map((question, index) => toQuestionRow(question.draft, exam.id, index + 1)));
+
+      if (questionsError) {
+        await supabase.from('exams').delete().eq('id', exam.id);
+        throw questionsError;
+      }
+
+      const skipped = questions.length - validQuestions.length;
+      toast({
+        title: "Exam Imported",
+        description: `${validQuestions.length} question${validQuestions.length === 1 ? '' : 's'} imported${
+          skipped > 0 ? `, ${skipped} skipped` : ''
+        }. Check the details before making the exam active.`,
+      });
+      navigate(`/teacher/exams/${exam.id}`);
+    } catch (error) {
+      console.error('Error importing QTI package:', error);
+      toast({
+        title: "Import Failed",
+        description: "Could not import that file. Choose a QTI 2.1 package (.zip).",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">My Exams</h1>
+          <p className="text-gray-600">Exams you own at {teacher?.collegeName}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={packageInputRef}
+            type="file"
+            accept=".zip"
+            className="hidden"
+            onChange={handlePackageChange}
+          />
+          <Button
+            variant="outline"
+            onClick={() => packageInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            {isImporting ? 'Importing...' : 'Import QTI'}
+          </Button>
+          <Button asChild className="flex items-center gap-2">
+            <Link to="/teacher/exams/new">
+              <Plus className="h-4 w-4" />
+              New Exam
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading exams...</p>
+      ) : exams.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-600">
+            You have not created any exams yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {exams.map(exam => (
+            <Link key={exam.id} to={`/teacher/exams/${exam.id}`}>
+              <Card className="shadow-sm h-full transition-shadow hover:shadow-md">
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                    <span className="flex items-center gap-2">
+                      <FileText className="h-5 w-5 text-blue-600" />
+                      {exam.name}
+                    </span>
+                    <Badge variant={exam.status === 'active' ? 'default' : 'secondary'}>
+                      {exam.status}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm text-gray-600">
+                  <p>{exam.topic}</p>
+                  <p className="font-mono">Access code: {exam.access_code}</p>
+                  <p className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    {exam.duration_minutes || 60} minutes
+                  </p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeacherDashboard;
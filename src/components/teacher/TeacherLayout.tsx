@@ -0,0 +1,59 @@
+import React from 'react';
+import { Link, Outlet } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { GraduationCap, LogOut } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTeacherAuth } from '@/hooks/use-teacher-auth';
+
+const TeacherLayout: React.FC = () => {
+  const { teacher, signOut } = useTeacherAuth();
+  const { toast } = useToast();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast({
+        title: "Sign Out Failed",
+        description: "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <Link to="/teacher" className="flex items-center gap-2">
+              <GraduationCap className="h-6 w-6 text-blue-600" />
+              <span className="text-lg font-semibold text-gray-900">Code Quest Assess</span>
+            </Link>
+
+            <div className="flex items-center gap-4">
+              {teacher && (
+                <div className="text-right hidden sm:block">
+                  <p className="text-sm font-medium text-gray-900">{teacher.name}</p>
+                  <p className="text-xs text-gray-500">{teacher.department}, {teacher.collegeName}</p>
+                </div>
+              )}
+              <Button onClick={handleSignOut} variant="outline" size="sm" className="flex items-center gap-2">
+                <LogOut className="h-4 w-4" />
+                Sign Out
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-4">
+        <Outlet />
+      </div>
+    </div>
+  );
+};
+
+export default TeacherLayout;
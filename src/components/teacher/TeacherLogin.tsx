@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { GraduationCap, Lock, Mail } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTeacherAuth } from '@/hooks/use-teacher-auth';
+
+const TeacherLogin: React.FC = () => {
+  const [mode, setMode] = useState<'sign-in' | 'forgot-password'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { signIn, sendPasswordReset } = useTeacherAuth();
+  const { toast } = useToast();
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) {
+      toast({
+        title: "Incomplete Information",
+        description: "Please enter your email and password",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await signIn(email, password);
+      toast({
+        title: "Signed In",
+        description: "Welcome back to the teacher portal",
+      });
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Sign In Failed",
+        description: error instanceof Error ? error.message : "Please check your credentials and try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.includes('@')) {
+      toast({
+        title: "Invalid Email",
+        description: "Please enter a valid email address",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await sendPasswordReset(email);
+      toast({
+        title: "Check Your Inbox",
+        description: "If an account exists for this email, a reset link is on its way.",
+      });
+      setMode('sign-in');
+    } catch (error) {
+      console.error('Error sending password reset:', error);
+      toast({
+        title: "Reset Failed",
+        description: "Could not send the reset email. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <div className="flex justify-center">
+            <div className="p-3 bg-blue-100 rounded-full">
+              <GraduationCap className="h-8 w-8 text-blue-600" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Code Quest Assess</h1>
+          <p className="text-gray-600">Teacher Portal</p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader className="text-center pb-6">
+            <CardTitle className="flex items-center justify-center gap-2">
+              <Lock className="h-5 w-5 text-blue-600" />
+              {mode === 'sign-in' ? 'Teacher Sign In' : 'Reset Password'}
+            </CardTitle>
+            <CardDescription>
+              {mode === 'sign-in'
+                ? 'Sign in to manage your exams'
+                : 'Enter your email and we will send you a reset link'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <form
+              onSubmit={mode === 'sign-in' ? handleSignIn : handleForgotPassword}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Email Address
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Enter your email address"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </div>
+
+              {mode === 'sign-in' && (
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="flex items-center gap-2">
+                    <Lock className="h-4 w-4" />
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700"
+                disabled={isLoading}
+              >
+                {mode === 'sign-in'
+                  ? (isLoading ? 'Signing in...' : 'Sign In')
+                  : (isLoading ? 'Sending...' : 'Send Reset Link')}
+              </Button>
+
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => setMode(mode === 'sign-in' ? 'forgot-password' : 'sign-in')}
+              >
+                {mode === 'sign-in' ? 'Forgot your password?' : 'Back to sign in'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TeacherLogin;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTeacherAuth } from '@/hooks/use-teacher-auth';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const TeacherResetPassword: React.FC = () => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { session, isLoading: isSessionLoading, updatePassword } = useTeacherAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password Too Short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords Do Not Match",
+        description: "Please re-enter the same password in both fields",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await updatePassword(password);
+      toast({
+        title: "Password Updated",
+        description: "You can now use your new password to sign in",
+      });
+      navigate('/teacher');
+    } catch (error) {
+      console.error('Error updating password:', error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not update your password.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isSessionLoading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-lg border-0">
+          <CardHeader className="text-center pb-6">
+            <CardTitle className="flex items-center justify-center gap-2">
+              <KeyRound className="h-5 w-5 text-blue-600" />
+              Choose a New Password
+            </CardTitle>
+            <CardDescription>
+              {session
+                ? 'Enter a new password for your teacher account'
+                : 'This reset link is invalid or has expired. Request a new one from the sign in page.'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {session ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password">New Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm Password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full bg-blue-600 hover:bg-blue-700"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Updating...' : 'Update Password'}
+                </Button>
+              </form>
+            ) : (
+              <Button className="w-full" variant="outline" onClick={() => navigate('/teacher')}>
+                Back to Sign In
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TeacherResetPassword;
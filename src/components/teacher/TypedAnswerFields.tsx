@@ -0,0 +1,99 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { QuestionDraft, ToleranceMode } from '@/lib/questions';
+
+interface TypedAnswerFieldsProps {
+  question: QuestionDraft;
+  onChange: (changes: Partial<QuestionDraft>) => void;
+}
+
+// Answer key for numeric and short-text questions
+const TypedAnswerFields: React.FC<TypedAnswerFieldsProps> = ({ question, onChange }) => {
+  if (question.questionType === 'numeric') {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="correctAnswer">Correct Value</Label>
+          <Input
+            id="correctAnswer"
+            inputMode="decimal"
+            value={question.correctAnswer}
+            onChange={(e) => onChange({ correctAnswer: e.target.value })}
+            placeholder="e.g., 3.14"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="answerTolerance">Tolerance</Label>
+          <Input
+            id="answerTolerance"
+            type="number"
+            min={0}
+            step="any"
+            value={question.answerTolerance}
+            onChange={(e) => onChange({ answerTolerance: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Tolerance Is</Label>
+          <Select
+            value={question.toleranceMode}
+            onValueChange={(value) => onChange({ toleranceMode: value as ToleranceMode })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="absolute">Plus or minus this amount</SelectItem>
+              <SelectItem value="relative">Percent of the correct value</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="correctAnswer">Correct Answer</Label>
+        <Input
+          id="correctAnswer"
+          value={question.correctAnswer}
+          onChange={(e) => onChange({ correctAnswer: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="acceptedAnswers">Also Accept (one per line)</Label>
+        <Textarea
+          id="acceptedAnswers"
+          rows={3}
+          value={question.acceptedAnswers.join('\n')}
+          onChange={(e) => onChange({ acceptedAnswers: e.target.value.split('\n') })}
+        />
+        <p className="text-xs text-gray-500">
+          Extra spaces are ignored when answers are compared.
+        </p>
+      </div>
+      <div className="flex items-center gap-3">
+        <Switch
+          id="caseSensitive"
+          checked={question.caseSensitive}
+          onCheckedChange={(checked) => onChange({ caseSensitive: checked })}
+        />
+        <Label htmlFor="caseSensitive">Answers are case-sensitive</Label>
+      </div>
+    </div>
+  );
+};
+
+export default TypedAnswerFields;
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ExamClock {
+  timeRemaining: number;
+  sectionTimeRemaining: number | null; // null when the exam has no sections
+  currentSectionId: string | null;
+  syncClock: () => Promise<void>;
+}
+
+/**
+ * Counts down to the submission's server-side deadline, and to the current
+ * section's deadline when the exam has sections. The browser clock is only
+ * used to tick: the offset to the database clock is measured on each sync, so
+ * a reload or a wrong system time cannot extend the exam. Call syncClock after
+ * the server moves the attempt to another section.
+ */
+export function useExamClock(
+  submissionId: string | null,
+  initialSeconds: number,
+  onExpire: () => void,
+  onSectionExpire?: (sectionId: string) => void
+): ExamClock {
+  const [timeRemaining, setTimeRemaining] = useState(initialSeconds);
+  const [sectionTimeRemaining, setSectionTimeRemaining] = useState<number | null>(null);
+  const [currentSectionId, setCurrentSectionId] = useState<string | null>(null);
+  const deadlineRef = useRef<number | null>(null);
+  const sectionDeadlineRef = useRef<number | null>(null);
+  const currentSectionIdRef = useRef<string | null>(null);
+  const onExpireRef = useRef(onExpire);
+  const onSectionExpireRef = useRef(onSectionExpire);
+  const hasExpiredRef = useRef(false);
+  // The section whose expiry was last reported, so each section expires once
+  const expiredSectionIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+    onSectionExpireRef.current = onSectionExpire;
+  }, [onExpire, onSectionExpire]);
+
+  const syncClock = useCallback(async () => {
+    if (!submissionId) return;
+
+    const requestedAt = Date.now();
+    const { data, error } = await supabase
+      .rpc('get_submission_clock', { p_submission_id: submissionId })
+      .single();
+
+    if (error || !data) {
+      console.error('Error fetching exam clock:', error);
+      return;
+    }
+
+    // Assume the server read its clock halfway through the round trip
+    const receivedAt = Date.now();
+    const offset = new Date(data.server_now).getTime() - (requestedAt + receivedAt) / 2;
+    deadlineRef.current = new Date(data.deadline_at).getTime() - offset;
+    sectionDeadlineRef.current = data.section_deadline_at
+      ? new Date(data.section_deadline_at).getTime() - offset
+      : null;
+    currentSectionIdRef.current = data.current_section_id;
+    setCurrentSectionId(data.current_section_id);
+  }, [submissionId]);
+
+  useEffect(() => {
+    syncClock();
+  }, [syncClock]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (deadlineRef.current === null) return;
+
+      const remaining = Math.max(0, Math.ceil((deadlineRef.current - Date.now()) / 1000));
+      setTimeRemaining(remaining);
+
+      if (remaining === 0) {
+        if (!hasExpiredRef.current) {
+          hasExpiredRef.current = true;
+          onExpireRef.current();
+        }
+        return;
+      }
+
+      if (sectionDeadlineRef.current === null) {
+        setSectionTimeRemaining(null);
+        return;
+      }
+
+      const sectionRemaining = Math.max(0, Math.ceil((sectionDeadlineRef.current - Date.now()) / 1000));
+      setSectionTimeRemaining(sectionRemaining);
+
+      const sectionId = currentSectionIdRef.current;
+      if (sectionRemaining === 0 && sectionId && expiredSectionIdRef.current !== sectionId) {
+        expiredSectionIdRef.current = sectionId;
+        onSectionExpireRef.current?.(sectionId);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, []);
+
+  return { timeRemaining, sectionTimeRemaining, currentSectionId, syncClock };
+}
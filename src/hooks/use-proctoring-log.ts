@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ProctoringEventType =
+  | 'tab_switch'
+  | 'fullscreen_exit'
+  | 'window_blur'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'context_menu'
+  | 'auto_submit';
+
+interface PendingEvent {
+  event_type: ProctoringEventType;
+  occurred_at: string;
+  details: Json;
+}
+
+/**
+ * Records proctoring events against the submission. Clipboard and right-click
+ * listeners live here; the exam screen reports tab switches and fullscreen
+ * exits itself because it also reacts to them. Events that fail to save (e.g.
+ * while offline) are kept and retried with the next one.
+ */
+export function useProctoringLog(submissionId: string | null) {
+  const pendingEvents = useRef<PendingEvent[]>([]);
+
+  const flush = useCallback(async () => {
+    if (!submissionId || pendingEvents.current.length === 0) return;
+
+    const batch = pendingEvents.current;
+    pendingEvents.current = [];
+
+    const { error } = await supabase
+      .from('proctoring_events')
+      .insert(batch.map(event => ({ ...event, submission_id: submissionId })));
+
+    if (error) {
+      console.error('Error logging proctoring events:', error);
+      pendingEvents.current = [...batch, ...pendingEvents.current];
+    }
+  }, [submissionId]);
+
+  const logEvent = useCallback((eventType: ProctoringEventType, details: Json = {}) => {
+    pendingEvents.current.push({
+      event_type: eventType,
+      occurred_at: new Date().toISOString(),
+      details
+    });
+    return flush();
+  }, [flush]);
+
+  useEffect(() => {
+    if (!submissionId) return;
+
+    // Logged only: blocking these would also break the code editor and essay box
+    const handleClipboard = (event: ClipboardEvent) => {
+      logEvent(event.type as 'copy' | 'cut' | 'paste');
+    };
+
+    const handleContextMenu = () => {
+      logEvent('context_menu');
+    };
+
+    const handleBlur = () => {
+      // Blur fires just before visibilitychange; a hidden document is already logged as a tab switch
+      setTimeout(() => {
+        if (!document.hidden) {
+          logEvent('window_blur');
+        }
+      }, 100);
+    };
+
+    document.addEventListener('copy', handleClipboard);
+    document.addEventListener('cut', handleClipboard);
+    document.addEventListener('paste', handleClipboard);
+    document.addEventListener('contextmenu', handleContextMenu);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      document.removeEventListener('copy', handleClipboard);
+      document.removeEventListener('cut', handleClipboard);
+      document.removeEventListener('paste', handleClipboard);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [submissionId, logEvent]);
+
+  // Anything queued before the attempt existed goes out as soon as it does
+  useEffect(() => {
+    flush();
+  }, [flush]);
+
+  return logEvent;
+}
@@ -0,0 +1,158 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Teacher {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  collegeName: string;
+  department: string;
+}
+
+interface TeacherAuthContextValue {
+  session: Session | null;
+  teacher: Teacher | null;
+  isLoading: boolean;
+  isPasswordRecovery: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+}
+
+const TeacherAuthContext = createContext<TeacherAuthContextValue | undefined>(undefined);
+
+const fetchTeacher = async (userId: string): Promise<Teacher | null> => {
+  const { data, error } = await supabase
+    .from('teachers')
+    .select('id, user_id, name, email, college_name, department')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    name: data.name,
+    email: data.email,
+    collegeName: data.college_name,
+    department: data.department
+  };
+};
+
+export const TeacherAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [teacher, setTeacher] = useState<Teacher | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
+
+  const loadTeacher = useCallback(async (nextSession: Session | null) => {
+    setSession(nextSession);
+
+    if (!nextSession) {
+      setTeacher(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setTeacher(await fetchTeacher(nextSession.user.id));
+    } catch (error) {
+      console.error('Error loading teacher profile:', error);
+      setTeacher(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // The client persists the session in localStorage, so a reload picks it up here
+    supabase.auth.getSession().then(({ data }) => loadTeacher(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setIsPasswordRecovery(true);
+      }
+      // Defer the profile query so it does not run inside the auth callback
+      setTimeout(() => loadTeacher(nextSession), 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadTeacher]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email: email.trim().toLowerCase(),
+      password
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const profile = await fetchTeacher(data.user.id);
+    if (!profile) {
+      await supabase.auth.signOut();
+      throw new Error('This account is not registered as a teacher.');
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      throw error;
+    }
+  }, []);
+
+  const sendPasswordReset = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim().toLowerCase(), {
+      redirectTo: `${window.location.origin}/teacher/reset-password`
+    });
+
+    if (error) {
+      throw error;
+    }
+  }, []);
+
+  const updatePassword = useCallback(async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) {
+      throw error;
+    }
+    setIsPasswordRecovery(false);
+  }, []);
+
+  return (
+    <TeacherAuthContext.Provider
+      value={{
+        session,
+        teacher,
+        isLoading,
+        isPasswordRecovery,
+        signIn,
+        signOut,
+        sendPasswordReset,
+        updatePassword
+      }}
+    >
+      {children}
+    </TeacherAuthContext.Provider>
+  );
+};
+
+export const useTeacherAuth = () => {
+  const context = useContext(TeacherAuthContext);
+  if (!context) {
+    throw new Error('useTeacherAuth must be used within a TeacherAuthProvider');
+  }
+  return context;
+};
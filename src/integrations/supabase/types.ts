@@ -14,13 +14,63 @@ export type Database = {
   }
   public: {
     Tables: {
+      exam_sections: {
+        Row: {
+          created_at: string
+          duration_minutes: number
+          exam_id: string
+          id: string
+          instructions: string
+          section_order: number
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          duration_minutes: number
+          exam_id: string
+          id?: string
+          instructions?: string
+          section_order?: number
+          title: string
+        }
+        Update: {
+          created_at?: string
+          duration_minutes?: number
+          exam_id?: string
+          id?: string
+          instructions?: string
+          section_order?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_sections_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exams: {
         Row: {
           access_code: string
+          answer_review_released: boolean
+          closes_at: string | null
           created_at: string | null
+          default_marks: number
+          default_negative_marks: number
+          draw_count: number | null
+          draw_rules: Json
           duration_minutes: number | null
           id: string
+          instructions: string
           name: string
+          opens_at: string | null
+          proctoring_policy: Json
+          results_released: boolean
+          shuffle_options: boolean
+          shuffle_questions: boolean
           status: string | null
           teacher_id: string
           topic: string
@@ -28,10 +78,22 @@ export type Database = {
         }
         Insert: {
           access_code: string
+          answer_review_released?: boolean
+          closes_at?: string | null
           created_at?: string | null
+          default_marks?: number
+          default_negative_marks?: number
+          draw_count?: number | null
+          draw_rules?: Json
           duration_minutes?: number | null
           id?: string
+          instructions?: string
           name: string
+          opens_at?: string | null
+          proctoring_policy?: Json
+          results_released?: boolean
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           status?: string | null
           teacher_id: string
           topic: string
@@ -39,10 +101,22 @@ export type Database = {
         }
         Update: {
           access_code?: string
+          answer_review_released?: boolean
+          closes_at?: string | null
           created_at?: string | null
+          default_marks?: number
+          default_negative_marks?: number
+          draw_count?: number | null
+          draw_rules?: Json
           duration_minutes?: number | null
           id?: string
+          instructions?: string
           name?: string
+          opens_at?: string | null
+          proctoring_policy?: Json
+          results_released?: boolean
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           status?: string | null
           teacher_id?: string
           topic?: string
@@ -58,44 +132,124 @@ export type Database = {
           },
         ]
       }
+      proctoring_events: {
+        Row: {
+          created_at: string
+          details: Json
+          event_type: string
+          id: string
+          occurred_at: string
+          submission_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          event_type: string
+          id?: string
+          occurred_at: string
+          submission_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          event_type?: string
+          id?: string
+          occurred_at?: string
+          submission_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctoring_events_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
+          accepted_answers: Json
+          answer_tolerance: number
+          case_sensitive: boolean
+          code_language: string
           correct_answer: string
           created_at: string | null
           exam_id: string
+          explanation: string
+          function_name: string | null
           id: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          marks: number | null
+          max_words: number | null
+          min_words: number | null
+          negative_marks: number | null
+          options: Json
           question_order: number | null
           question_text: string
+          question_type: string
+          rubric: Json
+          scoring_rule: string
+          section_id: string | null
+          starter_code: string
+          test_cases: Json
+          test_inputs: Json
+          tolerance_mode: string
           topic_tag: string | null
         }
         Insert: {
+          accepted_answers?: Json
+          answer_tolerance?: number
+          case_sensitive?: boolean
+          code_language?: string
           correct_answer: string
           created_at?: string | null
           exam_id: string
+          explanation?: string
+          function_name?: string | null
           id?: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          marks?: number | null
+          max_words?: number | null
+          min_words?: number | null
+          negative_marks?: number | null
+          options?: Json
           question_order?: number | null
           question_text: string
+          question_type?: string
+          rubric?: Json
+          scoring_rule?: string
+          section_id?: string | null
+          starter_code?: string
+          test_cases?: Json
+          test_inputs?: never
+          tolerance_mode?: string
           topic_tag?: string | null
         }
         Update: {
+          accepted_answers?: Json
+          answer_tolerance?: number
+          case_sensitive?: boolean
+          code_language?: string
           correct_answer?: string
           created_at?: string | null
           exam_id?: string
+          explanation?: string
+          function_name?: string | null
           id?: string
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
+          marks?: number | null
+          max_words?: number | null
+          min_words?: number | null
+          negative_marks?: number | null
+          options?: Json
           question_order?: number | null
           question_text?: string
+          question_type?: string
+          rubric?: Json
+          scoring_rule?: string
+          section_id?: string | null
+          starter_code?: string
+          test_cases?: Json
+          test_inputs?: never
+          tolerance_mode?: string
           topic_tag?: string | null
         }
         Relationships: [
@@ -106,34 +260,78 @@ export type Database = {
             referencedRelation: "exams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sections"
+            referencedColumns: ["id"]
+          },
         ]
       }
       responses: {
         Row: {
           created_at: string | null
+          graded_at: string | null
+          graded_by: string | null
+          grader_comment: string | null
           id: string
           is_correct: boolean | null
+          marked_for_review: boolean
+          marks_awarded: number | null
           question_id: string
+          rubric_scores: Json | null
+          score: number | null
           selected_answer: string | null
+          source_code: string | null
           submission_id: string
+          test_results: Json | null
+          time_taken_seconds: number | null
         }
         Insert: {
           created_at?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
+          grader_comment?: string | null
           id?: string
           is_correct?: boolean | null
+          marked_for_review?: boolean
+          marks_awarded?: number | null
           question_id: string
+          rubric_scores?: Json | null
+          score?: number | null
           selected_answer?: string | null
+          source_code?: string | null
           submission_id: string
+          test_results?: Json | null
+          time_taken_seconds?: number | null
         }
         Update: {
           created_at?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
+          grader_comment?: string | null
           id?: string
           is_correct?: boolean | null
+          marked_for_review?: boolean
+          marks_awarded?: number | null
           question_id?: string
+          rubric_scores?: Json | null
+          score?: number | null
           selected_answer?: string | null
+          source_code?: string | null
           submission_id?: string
+          test_results?: Json | null
+          time_taken_seconds?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "responses_graded_by_fkey"
+            columns: ["graded_by"]
+            isOneToOne: false
+            referencedRelation: "teachers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_responses_question_id"
             columns: ["question_id"]
@@ -174,35 +372,111 @@ export type Database = {
         }
         Relationships: []
       }
+      submission_questions: {
+        Row: {
+          position: number
+          question_id: string
+          submission_id: string
+        }
+        Insert: {
+          position?: number
+          question_id: string
+          submission_id: string
+        }
+        Update: {
+          position?: number
+          question_id?: string
+          submission_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_questions_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       submissions: {
         Row: {
+          consented_at: string | null
+          consented_instructions: string | null
+          current_question_index: number
+          current_section_id: string | null
+          deadline_at: string | null
           exam_id: string
+          grading_status: string | null
           id: string
+          max_score: number | null
+          section_deadline_at: string | null
+          shuffle_seed: number
+          started_at: string
+          status: string
           student_id: string
           submitted_at: string | null
           time_taken_minutes: number | null
           total_questions: number | null
           total_score: number | null
+          violation_count: number
         }
         Insert: {
+          consented_at?: string | null
+          consented_instructions?: string | null
+          current_question_index?: number
+          current_section_id?: string | null
+          deadline_at?: string | null
           exam_id: string
+          grading_status?: string | null
           id?: string
+          max_score?: number | null
+          section_deadline_at?: string | null
+          shuffle_seed?: number
+          started_at?: string
+          status?: string
           student_id: string
           submitted_at?: string | null
           time_taken_minutes?: number | null
           total_questions?: number | null
           total_score?: number | null
+          violation_count?: number
         }
         Update: {
+          consented_at?: string | null
+          consented_instructions?: string | null
+          current_question_index?: number
+          current_section_id?: string | null
+          deadline_at?: string | null
           exam_id?: string
+          grading_status?: string | null
           id?: string
+          max_score?: number | null
+          section_deadline_at?: string | null
+          shuffle_seed?: number
+          started_at?: string
+          status?: string
           student_id?: string
           submitted_at?: string | null
           time_taken_minutes?: number | null
           total_questions?: number | null
           total_score?: number | null
+          violation_count?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "submissions_current_section_id_fkey"
+            columns: ["current_section_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sections"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_submissions_exam_id"
             columns: ["exam_id"]
@@ -229,6 +503,7 @@ export type Database = {
           name: string
           password_hash: string | null
           updated_at: string | null
+          user_id: string | null
         }
         Insert: {
           college_name: string
@@ -239,6 +514,7 @@ export type Database = {
           name: string
           password_hash?: string | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
           college_name?: string
@@ -249,6 +525,7 @@ export type Database = {
           name?: string
           password_hash?: string | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: []
       }
@@ -257,7 +534,129 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      advance_submission_section: {
+        Args: { p_from_section_id: string; p_submission_id: string }
+        Returns: {
+          current_section_id: string
+          section_deadline_at: string
+        }[]
+      }
+      check_test_results: {
+        Args: { p_test_cases: Json; p_test_results: Json }
+        Returns: Json
+      }
+      confirm_coding_response: {
+        Args: { p_comment?: string; p_response_id: string; p_score: number }
+        Returns: number
+      }
+      current_teacher_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      finalize_submission_score: {
+        Args: { p_submission_id: string }
+        Returns: number
+      }
+      find_released_submission: {
+        Args: { p_access_code: string; p_email: string; p_roll_number: string }
+        Returns: string
+      }
+      get_attempt_status: {
+        Args: { p_exam_id: string; p_student_id: string }
+        Returns: {
+          status: string
+          submission_id: string
+        }[]
+      }
+      get_exam_question_count: {
+        Args: { p_exam_id: string }
+        Returns: number
+      }
+      get_student_answer_review: {
+        Args: { p_access_code: string; p_email: string; p_roll_number: string }
+        Returns: {
+          accepted_answers: Json
+          correct_answer: string
+          explanation: string
+          grader_comment: string
+          marks: number
+          marks_awarded: number
+          options: Json
+          question_id: string
+          question_text: string
+          question_type: string
+          score: number
+          selected_answer: string
+          source_code: string
+          test_results: Json
+        }[]
+      }
+      get_student_result: {
+        Args: { p_access_code: string; p_email: string; p_roll_number: string }
+        Returns: {
+          answer_review_released: boolean
+          candidate_count: number
+          exam_name: string
+          grading_status: string
+          max_score: number
+          percentile: number
+          rank: number
+          status: string
+          student_name: string
+          submitted_at: string
+          total_score: number
+        }[]
+      }
+      get_submission_clock: {
+        Args: { p_submission_id: string }
+        Returns: {
+          current_section_id: string
+          deadline_at: string
+          section_deadline_at: string
+          server_now: string
+          started_at: string
+        }[]
+      }
+      grade_essay_response: {
+        Args: {
+          p_comment?: string
+          p_response_id: string
+          p_rubric_scores: Json
+        }
+        Returns: number
+      }
+      grade_submission: {
+        Args: { p_submission_id: string }
+        Returns: undefined
+      }
+      is_exam_active: {
+        Args: { p_exam_id: string }
+        Returns: boolean
+      }
+      normalize_text_answer: {
+        Args: { p_answer: string; p_case_sensitive: boolean }
+        Returns: string
+      }
+      question_section_id: {
+        Args: { p_question_id: string }
+        Returns: string
+      }
+      register_student: {
+        Args: { p_email: string; p_name: string; p_roll_number: string }
+        Returns: string
+      }
+      score_response: {
+        Args: {
+          p_question: Database["public"]["Tables"]["questions"]["Row"]
+          p_selected_answer: string
+          p_test_results?: Json
+        }
+        Returns: number
+      }
+      test_case_inputs: {
+        Args: { p_test_cases: Json }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
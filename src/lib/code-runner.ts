@@ -0,0 +1,124 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Types rather than interfaces so test cases and results can be stored as Json
+export type TestCase = {
+  args: Json[];
+  expected: Json;
+};
+
+// What students get of a test case; the expected value stays on the server
+export type TestInput = {
+  args: Json[];
+};
+
+export type TestResult = {
+  output?: Json; // the returned value, compared with the expected one on the server
+  actual?: string;
+  error?: string;
+  passed?: boolean; // only ever set by the server
+};
+
+export interface CodeRunRequest {
+  nonce: string;
+  source: string;
+  functionName: string;
+  testInputs: TestInput[];
+}
+
+// Every message carries the run's nonce, which student code has no way to read
+export type CodeRunMessage =
+  | { type: 'result'; nonce: string; index: number; result: TestResult }
+  | { type: 'done'; nonce: string };
+
+export const parseTestCases = (value: Json): TestCase[] =>
+  Array.isArray(value)
+    ? value
+        .filter((test): test is { [key: string]: Json } => !!test && typeof test === 'object' && !Array.isArray(test))
+        .map(test => ({
+          args: Array.isArray(test.args) ? test.args : [],
+          expected: test.expected ?? null
+        }))
+    : [];
+
+export const parseTestInputs = (value: Json): TestInput[] =>
+  Array.isArray(value)
+    ? value
+        .filter((test): test is { [key: string]: Json } => !!test && typeof test === 'object' && !Array.isArray(test))
+        .map(test => ({ args: Array.isArray(test.args) ? test.args : [] }))
+    : [];
+
+export const parseTestResults = (value: Json | null): TestResult[] | null =>
+  Array.isArray(value)
+    ? value.map(result => {
+        const entry = result && typeof result === 'object' && !Array.isArray(result) ? result : {};
+        return {
+          output: entry.output,
+          passed: typeof entry.passed === 'boolean' ? entry.passed : undefined,
+          actual: typeof entry.actual === 'string' ? entry.actual : undefined,
+          error: typeof entry.error === 'string' ? entry.error : undefined
+        };
+      })
+    : null;
+
+// The same test the server applies: JSON values compared structurally, key order aside
+export const isSameOutput = (output: Json | undefined, expected: Json): boolean => {
+  if (output === undefined) return false;
+  if (output === null || expected === null || typeof output !== 'object' || typeof expected !== 'object') {
+    return output === expected;
+  }
+  if (Array.isArray(output) !== Array.isArray(expected)) return false;
+
+  const keysA = Object.keys(output);
+  const keysB = Object.keys(expected);
+  return keysA.length === keysB.length &&
+    keysA.every(key => key in expected &&
+      isSameOutput((output as Record<string, Json>)[key], (expected as Record<string, Json>)[key]));
+};
+
+/**
+ * Runs a JavaScript solution on each test's arguments in a throwaway worker,
+ * so student code never touches the page. A run that outlives the time limit
+ * (an infinite loop, say) is stopped and its unfinished tests report a time-out.
+ * Messages without this run's nonce were posted by the student code itself
+ * and are ignored.
+ */
+export const runTestCases = (
+  source: string,
+  functionName: string,
+  testInputs: TestInput[],
+  timeLimitMs = 5000
+): Promise<TestResult[]> =>
+  new Promise(resolve => {
+    const nonce = crypto.randomUUID();
+    const results: TestResult[] = testInputs.map(() => ({ error: 'Timed out' }));
+    const worker = new Worker(new URL('./code-runner.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(results);
+    };
+    const timer = setTimeout(finish, timeLimitMs);
+
+    worker.onmessage = (event: MessageEvent<CodeRunMessage>) => {
+      if (event.data?.nonce !== nonce) return;
+
+      if (event.data.type === 'result') {
+        results[event.data.index] = event.data.result;
+      } else {
+        finish();
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      results.forEach((result, index) => {
+        if (result.error === 'Timed out') {
+          results[index] = { error: event.message || 'The code could not run' };
+        }
+      });
+      finish();
+    };
+
+    const request: CodeRunRequest = { nonce, source, functionName, testInputs };
+    worker.postMessage(request);
+  });
@@ -0,0 +1,68 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { CodeRunRequest, CodeRunMessage, TestResult } from './code-runner';
+
+// Student code must not reach the network or load other scripts
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches'];
+BLOCKED_GLOBALS.forEach(name => {
+  try {
+    Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+  } catch {
+    // Already locked down by the browser
+  }
+});
+
+// Student code runs in this same scope and could replace postMessage or JSON;
+// keep the originals from before any of it has run
+const post = self.postMessage.bind(self);
+const { parse, stringify } = JSON;
+
+// The output as stored on the response; undefined when it is not JSON (e.g. a function)
+const toJson = (value: unknown): Json | undefined => {
+  try {
+    const text = stringify(value);
+    return text === undefined ? undefined : parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const describe = (value: unknown) => {
+  if (value === undefined) return 'undefined';
+  try {
+    return stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<CodeRunRequest>) => {
+  // Kept in this closure, out of reach of the student code
+  const { nonce, source, functionName, testInputs } = event.data;
+  const send = (message: CodeRunMessage) => post(message);
+
+  let solution: unknown;
+  try {
+    solution = new Function(`${source}\nreturn typeof ${functionName} === 'function' ? ${functionName} : undefined;`)();
+  } catch (error) {
+    testInputs.forEach((_, index) => send({ type: 'result', nonce, index, result: { error: String(error) } }));
+    send({ type: 'done', nonce });
+    return;
+  }
+
+  if (typeof solution !== 'function') {
+    const result: TestResult = { error: `Define a function named ${functionName}` };
+    testInputs.forEach((_, index) => send({ type: 'result', nonce, index, result }));
+    send({ type: 'done', nonce });
+    return;
+  }
+
+  for (let index = 0; index < testInputs.length; index++) {
+    try {
+      const actual = await solution(...structuredClone(testInputs[index].args));
+      send({ type: 'result', nonce, index, result: { output: toJson(actual), actual: describe(actual) } });
+    } catch (error) {
+      send({ type: 'result', nonce, index, result: { error: String(error) } });
+    }
+  }
+  send({ type: 'done', nonce });
+};
@@ -0,0 +1,86 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export interface SubmissionResult {
+  id: string;
+  studentName: string;
+  rollNumber: string;
+  email: string;
+  status: string; // 'in_progress', 'submitted' or 'expired'
+  gradingStatus: string | null;
+  totalScore: number | null; // null until every essay and coding answer is marked
+  maxScore: number | null;
+  timeTakenMinutes: number | null;
+  startedAt: string;
+  submittedAt: string | null;
+  autoSubmitReason: string | null; // null when the student handed the exam in themselves
+  violationCount: number;
+}
+
+export type ResultSortKey =
+  | 'studentName'
+  | 'rollNumber'
+  | 'totalScore'
+  | 'timeTakenMinutes'
+  | 'submittedAt'
+  | 'violationCount';
+
+export type ResultFilter = 'all' | 'submitted' | 'auto_submitted' | 'in_progress' | 'needs_grading';
+
+export const RESULT_FILTER_LABELS: Record<ResultFilter, string> = {
+  all: 'All attempts',
+  submitted: 'Handed in',
+  auto_submitted: 'Auto-submitted',
+  in_progress: 'In progress',
+  needs_grading: 'Needs grading'
+};
+
+const AUTO_SUBMIT_REASON_LABELS: Record<string, string> = {
+  time_up: 'Time ran out',
+  tab_switch: 'Tab switches',
+  fullscreen_exit: 'Left fullscreen',
+  expired: 'Closed by server'
+};
+
+export const formatAutoSubmitReason = (reason: string) =>
+  AUTO_SUBMIT_REASON_LABELS[reason] ?? reason;
+
+/**
+ * Why an attempt was submitted for the student: the reason the exam screen
+ * logged with its auto_submit event or, when the browser was gone before it
+ * could, the server closing the attempt after its deadline.
+ */
+export const getAutoSubmitReason = (status: string, autoSubmitEvents: { details: Json }[]) => {
+  const details = autoSubmitEvents[0]?.details;
+  if (details && typeof details === 'object' && !Array.isArray(details) && typeof details.reason === 'string') {
+    return details.reason;
+  }
+  return status === 'expired' ? 'expired' : null;
+};
+
+export const matchesResultFilter = (result: SubmissionResult, filter: ResultFilter) => {
+  switch (filter) {
+    case 'submitted':
+      return result.status !== 'in_progress' && !result.autoSubmitReason;
+    case 'auto_submitted':
+      return !!result.autoSubmitReason;
+    case 'in_progress':
+      return result.status === 'in_progress';
+    case 'needs_grading':
+      return result.gradingStatus === 'needs_grading';
+    default:
+      return true;
+  }
+};
+
+/** Orders by one column; blanks (unmarked scores, open attempts) always go last. */
+export const compareResults = (a: SubmissionResult, b: SubmissionResult, key: ResultSortKey, ascending: boolean) => {
+  const left = a[key];
+  const right = b[key];
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? 1 : -1;
+  }
+  const order = typeof left === 'number' && typeof right === 'number'
+    ? left - right
+    : String(left).localeCompare(String(right), undefined, { numeric: true, sensitivity: 'base' });
+  return ascending ? order : -order;
+};
@@ -0,0 +1,37 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface ExamSection {
+  id: string;
+  title: string;
+  instructions: string;
+  durationMinutes: number;
+  sectionOrder: number;
+}
+
+export const fromSectionRow = (row: Tables<'exam_sections'>): ExamSection => ({
+  id: row.id,
+  title: row.title,
+  instructions: row.instructions,
+  durationMinutes: row.duration_minutes,
+  sectionOrder: row.section_order
+});
+
+/** The section a question is sat in; questions without one belong to the first section. */
+export const getQuestionSectionId = (sectionId: string | null, sections: ExamSection[]) =>
+  sectionId && sections.some(section => section.id === sectionId) ? sectionId : sections[0]?.id ?? null;
+
+/**
+ * Splits questions into their sections, in section order, keeping the order of
+ * the questions within each section. Empty sections are left in.
+ */
+export const groupQuestionsBySection = <T extends { sectionId: string | null }>(
+  questions: T[],
+  sections: ExamSection[]
+) =>
+  sections.map(section => ({
+    section,
+    questions: questions.filter(question => getQuestionSectionId(question.sectionId, sections) === section.id)
+  }));
+
+export const getTotalSectionMinutes = (sections: ExamSection[]) =>
+  sections.reduce((sum, section) => sum + section.durationMinutes, 0);
@@ -0,0 +1,42 @@
+import { format } from 'date-fns';
+import type { Exam } from '@/pages/Index';
+
+export type ExamWindowStatus = 'not-open' | 'open' | 'closed';
+
+export const getExamWindowStatus = (
+  exam: Pick<Exam, 'opensAt' | 'closesAt'>,
+  now: Date = new Date()
+): ExamWindowStatus => {
+  if (exam.opensAt && now < new Date(exam.opensAt)) {
+    return 'not-open';
+  }
+  if (exam.closesAt && now >= new Date(exam.closesAt)) {
+    return 'closed';
+  }
+  return 'open';
+};
+
+/**
+ * Seconds a student may spend on the exam if they start at `now`: the exam
+ * duration, cut short by the global close time.
+ */
+export const getAvailableSeconds = (
+  exam: Pick<Exam, 'duration' | 'closesAt'>,
+  now: Date = new Date()
+) => {
+  const durationSeconds = (exam.duration || 60) * 60;
+  if (!exam.closesAt) {
+    return durationSeconds;
+  }
+  const secondsUntilClose = Math.floor((new Date(exam.closesAt).getTime() - now.getTime()) / 1000);
+  return Math.max(0, Math.min(durationSeconds, secondsUntilClose));
+};
+
+export const formatExamDateTime = (value: string) => format(new Date(value), 'PPp');
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeLocalValue = (value: string | null | undefined) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromDateTimeLocalValue = (value: string) =>
+  value ? new Date(value).toISOString() : null;
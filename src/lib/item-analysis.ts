@@ -0,0 +1,201 @@
+import { QUESTION_TYPE_LABELS, getOptionLetters, isChoiceQuestion, type QuestionType } from '@/lib/questions';
+import type { ExportTable } from '@/lib/results-export';
+
+export interface AnalysisQuestion {
+  id: string;
+  questionText: string;
+  questionType: QuestionType;
+  options: string[];
+  correctAnswer: string; // upper-case letters for choice questions
+}
+
+export interface AnalysisResponse {
+  submissionId: string;
+  questionId: string;
+  selectedAnswer: string | null;
+  isCorrect: boolean | null; // null until the answer is marked
+  marksAwarded: number | null;
+}
+
+export interface OptionStatistics {
+  letter: string;
+  text: string;
+  isKey: boolean;
+  share: number; // of the students who were given the question
+  discrimination: number | null;
+  beatsKey: boolean; // a wrong option that discriminates better than the (weakest) key
+}
+
+export type ItemFlag = 'distractor_beats_key' | 'negative_discrimination' | 'low_discrimination' | 'very_easy' | 'very_hard';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  distractor_beats_key: 'Distractor beats key',
+  negative_discrimination: 'Negative discrimination',
+  low_discrimination: 'Low discrimination',
+  very_easy: 'Very easy',
+  very_hard: 'Very hard'
+};
+
+export interface ItemStatistics {
+  questionId: string;
+  questionNumber: number;
+  questionText: string;
+  questionType: QuestionType;
+  responseCount: number; // marked answers, blanks included
+  difficulty: number | null; // p-value: the share answering correctly
+  discrimination: number | null; // point-biserial against the rest of the exam
+  noAnswerShare: number | null; // choice questions only
+  options: OptionStatistics[];
+  flags: ItemFlag[];
+}
+
+// Conventional cut-offs: below 0.2 an item barely separates strong and weak students
+const LOW_DISCRIMINATION = 0.2;
+const VERY_EASY = 0.9;
+const VERY_HARD = 0.2;
+
+/**
+ * Point-biserial correlation between a yes/no outcome and a score. Null when
+ * everyone (or no one) said yes, or everyone scored the same.
+ */
+const pointBiserial = (outcomes: boolean[], scores: number[]) => {
+  const n = outcomes.length;
+  const yesCount = outcomes.filter(Boolean).length;
+  if (n < 2 || yesCount === 0 || yesCount === n) return null;
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / n;
+  const sd = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / n);
+  if (sd === 0) return null;
+
+  const yesMean = scores.filter((_, i) => outcomes[i]).reduce((sum, score) => sum + score, 0) / yesCount;
+  const noMean = scores.filter((_, i) => !outcomes[i]).reduce((sum, score) => sum + score, 0) / (n - yesCount);
+  const p = yesCount / n;
+  return ((yesMean - noMean) / sd) * Math.sqrt(p * (1 - p));
+};
+
+// A wrong option that strong students favour more than the key usually means a miskeyed or ambiguous item
+const markDistractorsBeatingKey = (options: Omit<OptionStatistics, 'beatsKey'>[]): OptionStatistics[] => {
+  const keyDiscriminations = options.filter(option => option.isKey).map(option => option.discrimination ?? 0);
+  const weakestKey = keyDiscriminations.length > 0 ? Math.min(...keyDiscriminations) : Infinity;
+  return options.map(option => ({
+    ...option,
+    beatsKey: !option.isKey && option.share > 0 && (option.discrimination ?? 0) > weakestKey
+  }));
+};
+
+const getFlags = (difficulty: number | null, discrimination: number | null, options: OptionStatistics[]): ItemFlag[] => {
+  const flags: ItemFlag[] = [];
+
+  if (options.some(option => option.beatsKey)) {
+    flags.push('distractor_beats_key');
+  }
+
+  if (discrimination !== null) {
+    if (discrimination < 0) {
+      flags.push('negative_discrimination');
+    } else if (discrimination < LOW_DISCRIMINATION) {
+      flags.push('low_discrimination');
+    }
+  }
+
+  if (difficulty !== null) {
+    if (difficulty > VERY_EASY) {
+      flags.push('very_easy');
+    } else if (difficulty < VERY_HARD) {
+      flags.push('very_hard');
+    }
+  }
+
+  return flags;
+};
+
+/**
+ * Classical item statistics for each question, in the order given. Only
+ * marked answers count, so essays awaiting a grade are left out. Each
+ * student's score for an item is their total on the other questions, so an
+ * item is not correlated with itself.
+ */
+export const analyzeItems = (questions: AnalysisQuestion[], responses: AnalysisResponse[]): ItemStatistics[] => {
+  const marked = responses.filter(response => response.isCorrect !== null);
+
+  const totals = new Map<string, number>();
+  marked.forEach(response => {
+    totals.set(response.submissionId, (totals.get(response.submissionId) ?? 0) + (response.marksAwarded ?? 0));
+  });
+
+  return questions.map((question, index) => {
+    const answers = marked.filter(response => response.questionId === question.id);
+    const restScores = answers.map(response => (totals.get(response.submissionId) ?? 0) - (response.marksAwarded ?? 0));
+    const correct = answers.map(response => response.isCorrect === true);
+    const difficulty = answers.length > 0 ? correct.filter(Boolean).length / answers.length : null;
+    const discrimination = pointBiserial(correct, restScores);
+
+    let options: OptionStatistics[] = [];
+    let noAnswerShare: number | null = null;
+    if (isChoiceQuestion(question.questionType)) {
+      // Choice answers are stored as lower-case letters, 'n' when nothing was picked
+      const picks = answers.map(response => {
+        const answer = (response.selectedAnswer || '').toLowerCase();
+        return answer === 'n' ? '' : answer;
+      });
+      options = markDistractorsBeatingKey(getOptionLetters(question.options.length).map((letter, optionIndex) => {
+        const picked = picks.map(pick => pick.includes(letter.toLowerCase()));
+        return {
+          letter,
+          text: question.options[optionIndex],
+          isKey: question.correctAnswer.includes(letter),
+          share: answers.length > 0 ? picked.filter(Boolean).length / answers.length : 0,
+          discrimination: pointBiserial(picked, restScores)
+        };
+      }));
+      noAnswerShare = answers.length > 0 ? picks.filter(pick => !pick).length / answers.length : null;
+    }
+
+    return {
+      questionId: question.id,
+      questionNumber: index + 1,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      responseCount: answers.length,
+      difficulty,
+      discrimination,
+      noAnswerShare,
+      options,
+      flags: getFlags(difficulty, discrimination, options)
+    };
+  });
+};
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
+
+const toPercent = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 10);
+
+/** One row per question; each option gets a column for how often it was picked and its discrimination. */
+export const buildItemAnalysisTable = (items: ItemStatistics[]): ExportTable => {
+  const optionCount = Math.max(0, ...items.map(item => item.options.length));
+  const letters = getOptionLetters(optionCount);
+
+  const headers = ['Question', 'Question Text', 'Type', 'Responses', 'Difficulty (p)', 'Discrimination', 'No Answer %'];
+  letters.forEach(letter => {
+    headers.push(`${letter} %`, `${letter} Discrimination`);
+  });
+  headers.push('Key', 'Flags');
+
+  const rows = items.map(item => [
+    `Q${item.questionNumber}`,
+    item.questionText,
+    QUESTION_TYPE_LABELS[item.questionType],
+    item.responseCount,
+    round(item.difficulty),
+    round(item.discrimination),
+    toPercent(item.noAnswerShare),
+    ...letters.flatMap(letter => {
+      const option = item.options.find(candidate => candidate.letter === letter);
+      return option ? [toPercent(option.share), round(option.discrimination)] : [null, null];
+    }),
+    item.options.filter(option => option.isKey).map(option => option.letter).join('') || null,
+    item.flags.map(flag => ITEM_FLAG_LABELS[flag]).join('; ') || null
+  ]);
+
+  return { headers, rows };
+};
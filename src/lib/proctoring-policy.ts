@@ -0,0 +1,63 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ProctoringPolicy {
+  requireFullscreen: boolean;
+  countTabSwitches: boolean;
+  maxWarnings: number; // violations tolerated before the exam is auto-submitted
+  gracePeriodSeconds: number; // time to come back before leaving counts as a violation
+}
+
+// Matches the behaviour exams had before policies were configurable
+export const DEFAULT_PROCTORING_POLICY: ProctoringPolicy = {
+  requireFullscreen: true,
+  countTabSwitches: false,
+  maxWarnings: 0,
+  gracePeriodSeconds: 2
+};
+
+export const parseProctoringPolicy = (value: Json | null | undefined): ProctoringPolicy => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_PROCTORING_POLICY;
+  }
+
+  const toCount = (raw: Json | undefined, fallback: number) =>
+    typeof raw === 'number' && raw >= 0 ? Math.floor(raw) : fallback;
+
+  return {
+    requireFullscreen: typeof value.require_fullscreen === 'boolean'
+      ? value.require_fullscreen
+      : DEFAULT_PROCTORING_POLICY.requireFullscreen,
+    countTabSwitches: typeof value.count_tab_switches === 'boolean'
+      ? value.count_tab_switches
+      : DEFAULT_PROCTORING_POLICY.countTabSwitches,
+    maxWarnings: toCount(value.max_warnings, DEFAULT_PROCTORING_POLICY.maxWarnings),
+    gracePeriodSeconds: toCount(value.grace_period_seconds, DEFAULT_PROCTORING_POLICY.gracePeriodSeconds)
+  };
+};
+
+export const toProctoringPolicyJson = (policy: ProctoringPolicy): Json => ({
+  require_fullscreen: policy.requireFullscreen,
+  count_tab_switches: policy.countTabSwitches,
+  max_warnings: policy.maxWarnings,
+  grace_period_seconds: policy.gracePeriodSeconds
+});
+
+export const describeProctoringPolicy = (policy: ProctoringPolicy) => {
+  const watched = [
+    policy.requireFullscreen && 'leaving fullscreen',
+    policy.countTabSwitches && 'switching tabs'
+  ].filter(Boolean).join(' or ');
+
+  if (!watched) {
+    return 'Activity is logged for your instructor but will not end your exam.';
+  }
+
+  const grace = policy.gracePeriodSeconds > 0
+    ? ` unless you return within ${policy.gracePeriodSeconds} second${policy.gracePeriodSeconds === 1 ? '' : 's'}`
+    : '';
+  const limit = policy.maxWarnings === 0
+    ? 'your exam is auto-submitted on the first violation'
+    : `your exam is auto-submitted after ${policy.maxWarnings} warning${policy.maxWarnings === 1 ? '' : 's'}`;
+
+  return `Counts as a violation: ${watched}${grace}; ${limit}.`;
+};
@@ -0,0 +1,399 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { ImportedQuestion } from '@/lib/question-import';
+import {
+  OPTION_LETTERS,
+  emptyQuestionDraft,
+  getOptionLetters,
+  normalizeAnswerLetters,
+  validateQuestion,
+  type QuestionDraft,
+} from '@/lib/questions';
+
+// IMS QTI 2.1 content packages: one assessmentItem per question, listed in imsmanifest.xml
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const LOM_NAMESPACE = 'http://ltsc.ieee.org/xsd/LOM';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const ITEM_RESOURCE_TYPE = 'imsqti_item_xmlv2p1';
+const TEMPLATE_BASE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+export const QTI_FORMAT_LABEL = 'QTI 2.1 package';
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Blank lines start a new paragraph, single line breaks are kept
+const toXhtmlParagraphs = (text: string) =>
+  text
+    .trim()
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br/>')}</p>`)
+    .join('\n    ');
+
+const valueElement = (value: string) => `<value>${escapeXml(value)}</value>`;
+
+const outcomeDeclarations = (marks: number | null) => [
+  '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+  `  <defaultValue>${valueElement('0')}</defaultValue>`,
+  '</outcomeDeclaration>',
+  ...(marks !== null
+    ? [
+        '<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">',
+        `  <defaultValue>${valueElement(String(marks))}</defaultValue>`,
+        '</outcomeDeclaration>'
+      ]
+    : [])
+];
+
+// A numeric answer within the tolerance scores 1, anything else keeps SCORE at 0
+const toleranceProcessing = (question: QuestionDraft) => [
+  '<responseProcessing>',
+  '  <responseCondition>',
+  '    <responseIf>',
+  `      <equal toleranceMode="${question.toleranceMode}" tolerance="${question.answerTolerance} ${question.answerTolerance}">`,
+  '        <variable identifier="RESPONSE"/>',
+  '        <correct identifier="RESPONSE"/>',
+  '      </equal>',
+  '      <setOutcomeValue identifier="SCORE">',
+  '        <baseValue baseType="float">1</baseValue>',
+  '      </setOutcomeValue>',
+  '    </responseIf>',
+  '  </responseCondition>',
+  '</responseProcessing>'
+];
+
+/** The declarations, body and scoring of one item; null for questions QTI cannot carry. */
+const buildItemParts = (question: QuestionDraft) => {
+  const text = toXhtmlParagraphs(question.questionText);
+
+  switch (question.questionType) {
+    case 'single':
+    case 'multiple': {
+      const letters = normalizeAnswerLetters(question.correctAnswer).split('');
+      const cardinality = question.questionType === 'multiple' ? 'multiple' : 'single';
+      const choices = question.options.map((option, index) =>
+        `<simpleChoice identifier="${OPTION_LETTERS[index]}">${escapeXml(option)}</simpleChoice>`
+      );
+      return {
+        declarations: [
+          `<responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">`,
+          `  <correctResponse>${letters.map(valueElement).join('')}</correctResponse>`,
+          '</responseDeclaration>'
+        ],
+        body: [
+          text,
+          `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${cardinality === 'single' ? 1 : 0}">`,
+          ...choices.map(choice => `  ${choice}`),
+          '</choiceInteraction>'
+        ],
+        processing: [`<responseProcessing template="${TEMPLATE_BASE}/match_correct"/>`]
+      };
+    }
+    case 'numeric':
+      return {
+        declarations: [
+          '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">',
+          `  <correctResponse>${valueElement(question.correctAnswer.trim())}</correctResponse>`,
+          '</responseDeclaration>'
+        ],
+        body: [text, '<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>'],
+        processing: question.answerTolerance > 0
+          ? toleranceProcessing(question)
+          : [`<responseProcessing template="${TEMPLATE_BASE}/match_correct"/>`]
+      };
+    case 'short_text': {
+      const answers = [question.correctAnswer, ...question.acceptedAnswers].map(answer => answer.trim()).filter(Boolean);
+      return {
+        declarations: [
+          '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+          `  <correctResponse>${valueElement(answers[0] || '')}</correctResponse>`,
+          '  <mapping defaultValue="0">',
+          ...answers.map(answer =>
+            `    <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="${question.caseSensitive}"/>`
+          ),
+          '  </mapping>',
+          '</responseDeclaration>'
+        ],
+        body: [text, '<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>'],
+        processing: [`<responseProcessing template="${TEMPLATE_BASE}/map_response"/>`]
+      };
+    }
+    case 'essay':
+      return {
+        declarations: ['<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>'],
+        body: [text, '<extendedTextInteraction responseIdentifier="RESPONSE"/>'],
+        processing: []
+      };
+    default:
+      return null;
+  }
+};
+
+const buildItem = (identifier: string, title: string, question: QuestionDraft) => {
+  const parts = buildItemParts(question);
+  if (!parts) return null;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}"`,
+    `  xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+    `  identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">`,
+    ...[...parts.declarations, ...outcomeDeclarations(question.marks)].map(line => `  ${line}`),
+    '  <itemBody>',
+    ...parts.body.map(line => `    ${line}`),
+    '  </itemBody>',
+    ...parts.processing.map(line => `  ${line}`),
+    '</assessmentItem>',
+    ''
+  ].join('\n');
+};
+
+const lomGeneral = (fields: string[]) =>
+  `<imsmd:lom><imsmd:general>${fields.join('')}</imsmd:general></imsmd:lom>`;
+
+const lomString = (element: string, text: string) =>
+  `<imsmd:${element}><imsmd:string>${escapeXml(text)}</imsmd:string></imsmd:${element}>`;
+
+/**
+ * Zips an exam's questions as a QTI 2.1 package that Moodle and Canvas can
+ * import. Topic tags travel as LOM keywords on each item's manifest entry.
+ * Coding questions have no QTI equivalent and are left out.
+ */
+export const buildQtiPackage = (title: string, questions: QuestionDraft[]) => {
+  const files: Record<string, Uint8Array> = {};
+  const resources: string[] = [];
+  let skipped = 0;
+
+  questions.forEach((question, index) => {
+    const identifier = `item-${index + 1}`;
+    const href = `items/${identifier}.xml`;
+    const item = buildItem(identifier, `Question ${index + 1}`, question);
+    if (!item) {
+      skipped += 1;
+      return;
+    }
+
+    files[href] = strToU8(item);
+    const topicTag = question.topicTag.trim();
+    resources.push([
+      `    <resource identifier="${identifier}" type="${ITEM_RESOURCE_TYPE}" href="${href}">`,
+      ...(topicTag ? [`      <metadata>${lomGeneral([lomString('keyword', topicTag)])}</metadata>`] : []),
+      `      <file href="${href}"/>`,
+      '    </resource>'
+    ].join('\n'));
+  });
+
+  files['imsmanifest.xml'] = strToU8([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${CP_NAMESPACE}" xmlns:imsmd="${LOM_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}"`,
+    `  xsi:schemaLocation="${CP_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"`,
+    '  identifier="manifest">',
+    '  <metadata>',
+    '    <schema>QTIv2.1 Package</schema>',
+    '    <schemaversion>1.0.0</schemaversion>',
+    `    ${lomGeneral([lomString('title', title)])}`,
+    '  </metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    ...resources,
+    '  </resources>',
+    '</manifest>',
+    ''
+  ].join('\n'));
+
+  return { data: zipSync(files), skipped };
+};
+
+// Packages from other systems use their own prefixes, so elements are matched by local name
+const findAll = (parent: Element | Document, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const findFirst = (parent: Element | Document, localName: string): Element | undefined =>
+  findAll(parent, localName)[0];
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'li', 'ul', 'ol', 'table', 'tr', 'blockquote', 'pre', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'prompt'
+]);
+
+/** The readable text of some XHTML: paragraphs become blank lines, <br/> a line break. */
+const xhtmlToText = (node: Node): string => {
+  let text = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += (child.textContent || '').replace(/\s+/g, ' ');
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const name = (child as Element).localName;
+      if (name === 'br') {
+        text += '\n';
+      } else if (BLOCK_ELEMENTS.has(name)) {
+        text += `\n\n${xhtmlToText(child)}\n\n`;
+      } else {
+        text += xhtmlToText(child);
+      }
+    }
+  });
+  return text;
+};
+
+const cleanText = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const getCorrectValues = (declaration: Element | undefined) => {
+  const correctResponse = declaration && findFirst(declaration, 'correctResponse');
+  return correctResponse ? findAll(correctResponse, 'value').map(value => (value.textContent || '').trim()) : [];
+};
+
+const INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction'];
+
+/** Reads one assessmentItem into a draft, or says why it cannot be imported. */
+const parseItem = (doc: Document, topicTag: string): { draft: QuestionDraft; errors: string[] } => {
+  const draft = { ...emptyQuestionDraft(), topicTag };
+  const item = doc.documentElement;
+  if (item.localName !== 'assessmentItem') {
+    return { draft, errors: ['Not a QTI assessment item'] };
+  }
+
+  const body = findFirst(item, 'itemBody');
+  if (!body) {
+    return { draft, errors: ['The item has no body'] };
+  }
+
+  // The stem is the body without its interactions, plus their prompts
+  const interactions = findAll(body, '*').filter(element => element.localName.endsWith('Interaction'));
+  const stem = body.cloneNode(true) as Element;
+  findAll(stem, '*')
+    .filter(element => element.localName.endsWith('Interaction'))
+    .forEach(element => element.remove());
+  const prompts = interactions.flatMap(element => findAll(element, 'prompt')).map(xhtmlToText);
+  draft.questionText = cleanText([xhtmlToText(stem), ...prompts].join('\n\n'));
+
+  const interaction = interactions[0];
+  if (interactions.length > 1) {
+    return { draft, errors: ['Items with more than one interaction are not supported'] };
+  }
+  if (!interaction || !INTERACTIONS.includes(interaction.localName)) {
+    return {
+      draft,
+      errors: [`Only choice, text entry and extended text items can be imported${interaction ? ` (found ${interaction.localName})` : ''}`]
+    };
+  }
+
+  const responseId = interaction.getAttribute('responseIdentifier');
+  const declaration = findAll(item, 'responseDeclaration').find(element => element.getAttribute('identifier') === responseId);
+  const correctValues = getCorrectValues(declaration);
+
+  const maxScore = findAll(item, 'outcomeDeclaration').find(element => element.getAttribute('identifier') === 'MAXSCORE');
+  const marks = Number(maxScore && findFirst(maxScore, 'value')?.textContent);
+  draft.marks = marks > 0 ? marks : null;
+
+  const errors: string[] = [];
+
+  if (interaction.localName === 'choiceInteraction') {
+    const choices = findAll(interaction, 'simpleChoice');
+    const letters: readonly string[] = getOptionLetters(choices.length);
+    const identifiers = choices.map(choice => choice.getAttribute('identifier'));
+    draft.options = choices.map(choice => cleanText(xhtmlToText(choice)));
+    draft.correctAnswer = correctValues
+      .map(value => letters[identifiers.indexOf(value)] ?? '')
+      .join('');
+    const cardinality = declaration?.getAttribute('cardinality');
+    draft.questionType = cardinality === 'multiple' || (!cardinality && correctValues.length > 1) ? 'multiple' : 'single';
+    if (correctValues.length > draft.correctAnswer.length) {
+      errors.push('The correct response names a choice that is not in the item');
+    }
+  } else if (interaction.localName === 'extendedTextInteraction') {
+    draft.questionType = 'essay';
+  } else if (['float', 'integer'].includes(declaration?.getAttribute('baseType') || '')) {
+    draft.questionType = 'numeric';
+    draft.correctAnswer = correctValues[0] || '';
+    const equal = findFirst(item, 'equal');
+    const tolerance = Number((equal?.getAttribute('tolerance') || '').trim().split(/\s+/)[0]);
+    if (equal?.getAttribute('toleranceMode') !== 'exact' && tolerance > 0) {
+      draft.answerTolerance = tolerance;
+      draft.toleranceMode = equal?.getAttribute('toleranceMode') === 'relative' ? 'relative' : 'absolute';
+    }
+  } else {
+    // Every mapped answer that earns marks is accepted; the first is the key
+    const mapped = declaration
+      ? findAll(declaration, 'mapEntry').filter(entry => Number(entry.getAttribute('mappedValue')) > 0)
+      : [];
+    const answers = Array.from(new Set([...correctValues, ...mapped.map(entry => entry.getAttribute('mapKey') || '')]))
+      .map(answer => answer.trim())
+      .filter(Boolean);
+    draft.questionType = 'short_text';
+    draft.correctAnswer = answers[0] || '';
+    draft.acceptedAnswers = answers.slice(1);
+    draft.caseSensitive = mapped.some(entry => entry.getAttribute('caseSensitive') === 'true');
+  }
+
+  return { draft, errors };
+};
+
+interface PackageItem {
+  href: string;
+  topicTag: string;
+}
+
+// Items in manifest order, or every item file when a package has no manifest
+const listPackageItems = (files: Record<string, Uint8Array>, manifest: Document | null): PackageItem[] => {
+  if (!manifest) {
+    return Object.keys(files)
+      .filter(path => path.toLowerCase().endsWith('.xml'))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(href => ({ href, topicTag: '' }));
+  }
+
+  return findAll(manifest, 'resource')
+    .filter(resource => (resource.getAttribute('type') || '').startsWith('imsqti_item_xmlv2p'))
+    .map(resource => {
+      const keyword = findFirst(resource, 'keyword');
+      return {
+        href: resource.getAttribute('href') || findFirst(resource, 'file')?.getAttribute('href') || '',
+        topicTag: (keyword && findFirst(keyword, 'string')?.textContent?.trim()) || ''
+      };
+    });
+};
+
+/**
+ * Unzips a QTI 2.1 package into drafts in manifest order, each with the
+ * problems that would stop it being saved. `line` is the item's position in
+ * the package. Throws if the file is not a zip.
+ */
+export const parseQtiPackage = (data: Uint8Array): { title: string; questions: ImportedQuestion[] } => {
+  const files = unzipSync(data);
+  const manifestPath = Object.keys(files).find(path => path.toLowerCase() === 'imsmanifest.xml');
+  const manifest = manifestPath ? parseXml(strFromU8(files[manifestPath])) : null;
+  const manifestTitle = manifest && findFirst(manifest, 'title');
+  const title = (manifestTitle && findFirst(manifestTitle, 'string')?.textContent?.trim()) || '';
+
+  const questions = listPackageItems(files, manifest)
+    .map(({ href, topicTag }) => {
+      const file = files[decodeURIComponent(href)] ?? files[href];
+      return { href, topicTag, doc: file ? parseXml(strFromU8(file)) : null };
+    })
+    // Without a manifest, other XML files in the zip are simply not items
+    .filter(({ doc }) => manifest || doc?.documentElement.localName === 'assessmentItem')
+    .map(({ href, topicTag, doc }, index): ImportedQuestion => {
+      if (!doc) {
+        return { line: index + 1, draft: { ...emptyQuestionDraft(), topicTag }, errors: [`Could not read ${href || 'the item file'}`] };
+      }
+      const { draft, errors } = parseItem(doc, topicTag);
+      return { line: index + 1, draft, errors: errors.length > 0 ? errors : validateQuestion(draft) };
+    });
+
+  return { title, questions };
+};
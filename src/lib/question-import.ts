@@ -0,0 +1,349 @@
+import {
+  MAX_OPTIONS,
+  OPTION_LETTERS,
+  emptyQuestionDraft,
+  normalizeAnswerLetters,
+  validateQuestion,
+  type QuestionDraft,
+} from '@/lib/questions';
+
+export type ImportFormat = 'csv' | 'aiken' | 'gift';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  aiken: 'Aiken',
+  gift: 'Moodle GIFT'
+};
+
+export interface ImportedQuestion {
+  line: number; // where the question starts in the file, for error messages
+  draft: QuestionDraft;
+  errors: string[];
+}
+
+export const detectImportFormat = (fileName: string): ImportFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift') return 'gift';
+  return 'aiken';
+};
+
+const choiceDraft = (questionText: string, options: string[], answer: string, topicTag = ''): QuestionDraft => {
+  const letters = normalizeAnswerLetters(answer);
+  return {
+    ...emptyQuestionDraft(),
+    questionText,
+    options,
+    correctAnswer: letters,
+    questionType: letters.length > 1 ? 'multiple' : 'single',
+    topicTag
+  };
+};
+
+// Parse problems first, then whatever the editor would also refuse
+const withValidation = (line: number, draft: QuestionDraft, parseErrors: string[] = []): ImportedQuestion => ({
+  line,
+  draft,
+  errors: [...parseErrors, ...validateQuestion(draft)]
+});
+
+/** RFC 4180 records: quoted fields may hold commas, doubled quotes and line breaks. */
+const parseCsvRecords = (text: string) => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  records.push({ line: recordLine, fields });
+
+  return records.filter(record => record.fields.some(value => value.trim()));
+};
+
+/**
+ * One question per row: question, option A, B, C, D, answer, topic tag. Fewer
+ * options are fine (leave the trailing ones empty); the answer is a letter, or
+ * several letters such as "AC" or "A,C" for a multiple-select question. A
+ * header row starting with "question" is skipped.
+ */
+export const parseCsvQuestions = (text: string): ImportedQuestion[] => {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (records[0]?.fields[0].trim().toLowerCase().startsWith('question')) {
+    records.shift();
+  }
+
+  return records.map(({ line, fields }) => {
+    const [question = '', a = '', b = '', c = '', d = '', answer = '', topicTag = ''] = fields.map(value => value.trim());
+    const options = [a, b, c, d];
+    while (options.length > 0 && !options[options.length - 1]) {
+      options.pop();
+    }
+    const parseErrors = fields.length < 6 ? [`Expected at least 6 columns, found ${fields.length}`] : [];
+    return withValidation(line, choiceDraft(question, options, answer.replace(/[\s,;]/g, ''), topicTag), parseErrors);
+  });
+};
+
+const AIKEN_OPTION_PATTERN = /^([A-Z])[.)]\s+(.*)$/;
+const AIKEN_ANSWER_PATTERN = /^ANSWER:\s*(.*)$/i;
+
+/**
+ * Aiken: the question, one option per line as "A. text" or "A) text", then
+ * "ANSWER: B". Questions are separated by blank lines.
+ */
+export const parseAikenQuestions = (text: string): ImportedQuestion[] => {
+  const questions: ImportedQuestion[] = [];
+  let block: { line: number; text: string }[] = [];
+
+  const finishBlock = () => {
+    if (block.length === 0) return;
+    const parseErrors: string[] = [];
+    const questionLines: string[] = [];
+    const options: string[] = [];
+    let answer: string | null = null;
+
+    block.forEach(({ text: lineText }) => {
+      const answerMatch = AIKEN_ANSWER_PATTERN.exec(lineText);
+      const optionMatch = AIKEN_OPTION_PATTERN.exec(lineText);
+      if (answerMatch) {
+        answer = answerMatch[1].trim();
+      } else if (optionMatch && answer === null && (options.length > 0 || questionLines.length > 0)) {
+        if (optionMatch[1] !== OPTION_LETTERS[options.length]) {
+          parseErrors.push(`Option ${optionMatch[1]} is out of order`);
+        }
+        options.push(optionMatch[2].trim());
+      } else if (options.length === 0) {
+        questionLines.push(lineText);
+      } else {
+        parseErrors.push(`Unexpected line: "${lineText}"`);
+      }
+    });
+
+    if (answer === null) {
+      parseErrors.push('Missing the "ANSWER:" line');
+    }
+    questions.push(withValidation(block[0].line, choiceDraft(questionLines.join('\n'), options, answer ?? ''), parseErrors));
+    block = [];
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((lineText, index) => {
+    if (lineText.trim()) {
+      block.push({ line: index + 1, text: lineText.trim() });
+    } else {
+      finishBlock();
+    }
+  });
+  finishBlock();
+
+  return questions;
+};
+
+// GIFT escapes (\~ \= \# \{ \} \:) are swapped for private-use characters while
+// parsing so they cannot be mistaken for syntax, then swapped back.
+const GIFT_SPECIALS = ['~', '=', '#', '{', '}', ':'];
+const protectGiftEscapes = (text: string) =>
+  text.replace(/\\([~=#{}:])/g, (_, char: string) => String.fromCharCode(0xe000 + GIFT_SPECIALS.indexOf(char)));
+const restoreGiftEscapes = (text: string) =>
+  text.replace(/[\uE000-\uE005]/g, char => GIFT_SPECIALS[char.charCodeAt(0) - 0xe000]).replace(/\\n/g, '\n');
+
+const parseGiftNumber = (text: string) => (text.trim() === '' ? NaN : Number(text));
+
+interface GiftAnswer {
+  isCorrect: boolean;
+  weight: number | null; // percentage from ~%50%, null when not given
+  text: string;
+}
+
+// "=right#feedback ~wrong ~%50%half" -> answers without their feedback
+const parseGiftAnswers = (body: string): GiftAnswer[] =>
+  (body.match(/[=~][^=~]*/g) || []).map(part => {
+    const weightMatch = /^[=~]%(-?\d+(?:\.\d+)?)%/.exec(part);
+    const answerText = part.slice(weightMatch ? weightMatch[0].length : 1).split('#')[0].trim();
+    return {
+      isCorrect: part.startsWith('='),
+      weight: weightMatch ? Number(weightMatch[1]) : null,
+      text: answerText
+    };
+  });
+
+/** Builds a question from the text around the answer block and the block itself. */
+const giftDraft = (questionText: string, body: string, topicTag: string): { draft: QuestionDraft; errors: string[] } => {
+  const base = { ...emptyQuestionDraft(), questionText, topicTag };
+  const trimmed = body.trim();
+
+  if (trimmed === '') {
+    return { draft: { ...base, questionType: 'essay' }, errors: [] };
+  }
+
+  if (/^(T|TRUE|F|FALSE)(#.*)?$/i.test(trimmed)) {
+    const isTrue = /^T/i.test(trimmed);
+    return { draft: { ...base, options: ['True', 'False'], correctAnswer: isTrue ? 'A' : 'B' }, errors: [] };
+  }
+
+  if (trimmed.startsWith('#')) {
+    const numeric = trimmed.slice(1).split('#')[0].replace(/^=/, '').trim();
+    const range = /^(.+)\.\.(.+)$/.exec(numeric);
+    const [value, tolerance] = range
+      ? [(parseGiftNumber(range[1]) + parseGiftNumber(range[2])) / 2, Math.abs(parseGiftNumber(range[2]) - parseGiftNumber(range[1])) / 2]
+      : [parseGiftNumber(numeric.split(':')[0]), numeric.includes(':') ? parseGiftNumber(numeric.split(':')[1]) : 0];
+    return {
+      draft: { ...base, questionType: 'numeric', correctAnswer: Number.isFinite(value) ? String(value) : '', answerTolerance: tolerance },
+      errors: Number.isFinite(value) && Number.isFinite(tolerance) ? [] : ['Could not read the numeric answer']
+    };
+  }
+
+  if (trimmed.includes('->')) {
+    return { draft: base, errors: ['Matching questions are not supported'] };
+  }
+
+  const answers = parseGiftAnswers(trimmed);
+  if (answers.length === 0) {
+    return { draft: base, errors: ['Could not read the answers'] };
+  }
+
+  // Only "=" answers: every one of them is an accepted short answer
+  if (answers.every(answer => answer.isCorrect)) {
+    return {
+      draft: {
+        ...base,
+        questionType: 'short_text',
+        correctAnswer: answers[0].text,
+        acceptedAnswers: answers.slice(1).map(answer => answer.text)
+      },
+      errors: []
+    };
+  }
+
+  if (answers.length > MAX_OPTIONS) {
+    return { draft: base, errors: [`A question can have at most ${MAX_OPTIONS} options`] };
+  }
+
+  // "~%50%" weights mark a multiple-select question: every positive weight is a correct option
+  const isWeighted = answers.some(answer => answer.weight !== null);
+  const correctLetters = answers
+    .map((answer, index) => ((isWeighted ? (answer.weight ?? 0) > 0 : answer.isCorrect) ? OPTION_LETTERS[index] : ''))
+    .join('');
+  return {
+    draft: {
+      ...base,
+      options: answers.map(answer => answer.text),
+      correctAnswer: correctLetters,
+      questionType: isWeighted ? 'multiple' : 'single',
+      scoringRule: isWeighted ? 'proportional' : 'all_or_nothing'
+    },
+    errors: []
+  };
+};
+
+/**
+ * Moodle GIFT: multiple choice (=right ~wrong, or ~%50% weights for several
+ * right answers), true/false, short answer, numeric (#value:tolerance or
+ * #min..max) and essay ({}). "::title::" and [format] prefixes are dropped,
+ * "####text" becomes the explanation and "$CATEGORY:" sets the topic tag of
+ * the questions after it. Matching questions are reported as unsupported.
+ */
+export const parseGiftQuestions = (text: string): ImportedQuestion[] => {
+  const questions: ImportedQuestion[] = [];
+  let topicTag = '';
+  let block: { line: number; text: string }[] = [];
+
+  const finishBlock = () => {
+    let categoryMatch: RegExpExecArray | null;
+    while (block.length > 0 && (categoryMatch = /^\s*\$CATEGORY:\s*(.*)$/i.exec(block[0].text))) {
+      topicTag = categoryMatch[1].split('/').filter(Boolean).pop()?.trim() || '';
+      block.shift();
+    }
+    if (block.length === 0) return;
+    const line = block[0].line;
+    const source = protectGiftEscapes(block.map(entry => entry.text).join('\n'));
+    block = [];
+
+    const open = source.indexOf('{');
+    const close = source.indexOf('}', open);
+    if (open === -1 || close === -1) {
+      questions.push({
+        line,
+        draft: { ...emptyQuestionDraft(), questionText: restoreGiftEscapes(source.trim()), topicTag },
+        errors: ['Missing the {answer} block']
+      });
+      return;
+    }
+
+    let body = source.slice(open + 1, close);
+    let explanation = '';
+    const generalFeedback = body.indexOf('####');
+    if (generalFeedback !== -1) {
+      explanation = restoreGiftEscapes(body.slice(generalFeedback + 4).trim());
+      body = body.slice(0, generalFeedback);
+    }
+
+    // Answers in the middle of a sentence leave a blank to fill in
+    const before = source.slice(0, open).replace(/^::.*?::/s, '').replace(/^\s*\[\w+\]/, '').trim();
+    const after = source.slice(close + 1).trim();
+    const questionText = restoreGiftEscapes(after ? `${before} _____ ${after}` : before);
+
+    const { draft, errors } = giftDraft(questionText, body, topicTag);
+    const restored: QuestionDraft = {
+      ...draft,
+      options: draft.options.map(restoreGiftEscapes),
+      correctAnswer: restoreGiftEscapes(draft.correctAnswer),
+      acceptedAnswers: draft.acceptedAnswers.map(restoreGiftEscapes),
+      explanation
+    };
+    // A block that could not be read gets no further checks; they would only add noise
+    questions.push(errors.length > 0 ? { line, draft: restored, errors } : withValidation(line, restored));
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((lineText, index) => {
+    if (lineText.trim().startsWith('//')) return;
+    if (lineText.trim()) {
+      block.push({ line: index + 1, text: lineText });
+    } else {
+      finishBlock();
+    }
+  });
+  finishBlock();
+
+  return questions;
+};
+
+export const parseQuestionImport = (text: string, format: ImportFormat): ImportedQuestion[] => {
+  switch (format) {
+    case 'csv':
+      return parseCsvQuestions(text);
+    case 'gift':
+      return parseGiftQuestions(text);
+    default:
+      return parseAikenQuestions(text);
+  }
+};
@@ -0,0 +1,32 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export type PoolMode = 'all' | 'random' | 'by-topic';
+
+export interface DrawRule {
+  topicTag: string;
+  count: number;
+}
+
+export const parseDrawRules = (value: Json): DrawRule[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((rule): rule is { [key: string]: Json } => !!rule && typeof rule === 'object' && !Array.isArray(rule))
+    .map(rule => ({
+      topicTag: typeof rule.topic_tag === 'string' ? rule.topic_tag : '',
+      count: Number(rule.count) || 0
+    }));
+};
+
+export const toDrawRulesJson = (rules: DrawRule[]): Json =>
+  rules
+    .filter(rule => rule.count > 0)
+    .map(rule => ({ topic_tag: rule.topicTag, count: rule.count }));
+
+export const getPoolMode = (drawCount: number | null, drawRules: DrawRule[]): PoolMode => {
+  if (drawRules.length > 0) return 'by-topic';
+  if (drawCount) return 'random';
+  return 'all';
+};
+
@@ -0,0 +1,322 @@
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { parseTestCases, type TestCase } from '@/lib/code-runner';
+
+// Options are stored as an array; a letter is just the option's position (A is options[0])
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'] as const;
+export type OptionLetter = typeof OPTION_LETTERS[number];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = OPTION_LETTERS.length;
+
+export type QuestionType = 'single' | 'multiple' | 'numeric' | 'short_text' | 'coding' | 'essay';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single answer',
+  multiple: 'Select all that apply',
+  numeric: 'Numeric answer',
+  short_text: 'Short text answer',
+  coding: 'Coding (JavaScript)',
+  essay: 'Essay (marked by hand)'
+};
+
+/** Choice questions have options and letter answers; the others are typed in or coded. */
+export const isChoiceQuestion = (questionType: QuestionType) =>
+  questionType === 'single' || questionType === 'multiple';
+
+/** Wrong answers lose marks only where the key decides right or wrong; coding and essays never do. */
+export const allowsNegativeMarks = (questionType: QuestionType) =>
+  questionType !== 'coding' && questionType !== 'essay';
+
+/** '+4 / −1', or '+2' when a wrong answer costs nothing. */
+export const formatMarks = (marks: number, negativeMarks: number) =>
+  negativeMarks > 0 ? `+${marks} / −${negativeMarks}` : `+${marks}`;
+
+export type ToleranceMode = 'absolute' | 'relative';
+
+// Same pattern the database uses to accept a numeric answer key
+export const NUMERIC_ANSWER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// How a multiple-select answer earns credit; see score_response() on the server
+export type ScoringRule = 'all_or_nothing' | 'proportional' | 'penalty';
+
+export const SCORING_RULE_LABELS: Record<ScoringRule, string> = {
+  all_or_nothing: 'All or nothing',
+  proportional: 'Proportional (credit for each option judged right)',
+  penalty: 'Penalty (wrong picks cancel right ones)'
+};
+
+// Test cases are edited as JSON text and parsed when the question is saved
+export interface TestCaseDraft {
+  args: string; // JSON array of arguments, e.g. [1, 2]
+  expected: string; // JSON value, e.g. 3
+}
+
+export interface RubricCriterion {
+  criterion: string;
+  points: number;
+}
+
+// Essays without a rubric are marked out of this many points
+export const DEFAULT_ESSAY_POINTS = 10;
+
+export const parseRubric = (value: Json): RubricCriterion[] =>
+  Array.isArray(value)
+    ? value
+        .filter((entry): entry is { [key: string]: Json } => !!entry && typeof entry === 'object' && !Array.isArray(entry))
+        .map(entry => ({
+          criterion: typeof entry.criterion === 'string' ? entry.criterion : '',
+          points: Number(entry.points) || 0
+        }))
+    : [];
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export interface QuestionDraft {
+  id?: string;
+  questionText: string;
+  options: string[];
+  correctAnswer: string; // letter(s) for choice questions, the expected value or text otherwise
+  questionType: QuestionType;
+  scoringRule: ScoringRule;
+  acceptedAnswers: string[]; // short text: alternatives to correctAnswer
+  caseSensitive: boolean;
+  answerTolerance: number;
+  toleranceMode: ToleranceMode; // relative tolerance is a percentage of the expected value
+  functionName: string;
+  starterCode: string;
+  testCases: TestCaseDraft[];
+  minWords: number | null;
+  maxWords: number | null;
+  rubric: RubricCriterion[];
+  marks: number | null; // null uses the exam's default
+  negativeMarks: number | null; // null uses the exam's default
+  sectionId: string | null; // null puts the question in the exam's first section
+  topicTag: string;
+  explanation: string; // shown to students in the answer review
+  questionOrder?: number;
+}
+
+export const emptyQuestionDraft = (): QuestionDraft => ({
+  questionText: '',
+  options: ['', '', '', ''],
+  correctAnswer: '',
+  questionType: 'single',
+  scoringRule: 'all_or_nothing',
+  acceptedAnswers: [],
+  caseSensitive: false,
+  answerTolerance: 0,
+  toleranceMode: 'absolute',
+  functionName: '',
+  starterCode: '',
+  testCases: [],
+  minWords: null,
+  maxWords: null,
+  rubric: [],
+  marks: null,
+  negativeMarks: null,
+  sectionId: null,
+  topicTag: '',
+  explanation: ''
+});
+
+const parseJson = (text: string): { ok: true; value: Json } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+export const toTestCases = (drafts: TestCaseDraft[]): TestCase[] =>
+  drafts.map(draft => {
+    const args = parseJson(draft.args);
+    const expected = parseJson(draft.expected);
+    return {
+      args: args.ok && Array.isArray(args.value) ? args.value : [],
+      expected: expected.ok ? expected.value : null
+    };
+  });
+
+export const getOptionLetters = (optionCount: number) => OPTION_LETTERS.slice(0, optionCount);
+
+export const parseStringList = (value: Json): string[] =>
+  Array.isArray(value) ? value.map(option => (typeof option === 'string' ? option : String(option ?? ''))) : [];
+
+export const isOptionLetter = (value: string): value is OptionLetter =>
+  (OPTION_LETTERS as readonly string[]).includes(value);
+
+/** Upper-cases a set of letters and puts them in a stable order: 'ca' -> 'AC'. */
+export const normalizeAnswerLetters = (value: string) =>
+  Array.from(new Set(value.toUpperCase().split(''))).sort().join('');
+
+/** Adds or removes a letter from a multiple-select answer. */
+export const toggleAnswerLetter = (answer: string, letter: string) =>
+  answer.includes(letter)
+    ? answer.replace(letter, '')
+    : normalizeAnswerLetters(answer + letter);
+
+/**
+ * Returns a list of human-readable problems with a question, empty when the
+ * question can be saved. Shared by the editor and the importers.
+ */
+export const validateQuestion = (question: QuestionDraft): string[] => {
+  const errors: string[] = [];
+
+  if (!question.questionText.trim()) {
+    errors.push('Question text is required');
+  }
+
+  if (question.marks !== null && !(question.marks > 0)) {
+    errors.push('Marks must be more than zero');
+  }
+  if (question.negativeMarks !== null && !(question.negativeMarks >= 0)) {
+    errors.push('Negative marks cannot be below zero');
+  }
+
+  if (!isChoiceQuestion(question.questionType)) {
+    return [...errors, ...validateTypedAnswer(question)];
+  }
+
+  if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+    errors.push(`A question needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} options`);
+  }
+
+  const letters: readonly string[] = getOptionLetters(question.options.length);
+  question.options.forEach((option, index) => {
+    if (!option.trim()) {
+      errors.push(`Option ${OPTION_LETTERS[index]} is required`);
+    }
+  });
+
+  const answer = question.correctAnswer.trim().toUpperCase();
+  if (!answer) {
+    errors.push(question.questionType === 'multiple' ? 'Select at least one correct answer' : 'Select the correct answer');
+  } else if (question.questionType === 'multiple') {
+    if (!answer.split('').every(letter => letters.includes(letter))) {
+      errors.push(`Correct answers must be among ${letters.join(', ')}`);
+    }
+  } else if (answer.length !== 1 || !letters.includes(answer)) {
+    errors.push(`Correct answer must be exactly one of ${letters.join(', ')}`);
+  }
+
+  const options = question.options.map(option => option.trim().toLowerCase());
+  if (new Set(options.filter(Boolean)).size !== options.filter(Boolean).length) {
+    errors.push('Options must be different from each other');
+  }
+
+  return errors;
+};
+
+const validateTypedAnswer = (question: QuestionDraft): string[] => {
+  const errors: string[] = [];
+  const answer = question.correctAnswer.trim();
+
+  if (question.questionType === 'numeric') {
+    if (!NUMERIC_ANSWER_PATTERN.test(answer)) {
+      errors.push('Correct answer must be a number, e.g. 42 or -0.5');
+    }
+    if (!(question.answerTolerance >= 0)) {
+      errors.push('Tolerance cannot be negative');
+    }
+  } else if (question.questionType === 'coding') {
+    if (!IDENTIFIER_PATTERN.test(question.functionName.trim())) {
+      errors.push('Enter the name of the function students must write');
+    }
+    if (question.testCases.length === 0) {
+      errors.push('Add at least one test case');
+    }
+    question.testCases.forEach((test, index) => {
+      const args = parseJson(test.args);
+      if (!args.ok || !Array.isArray(args.value)) {
+        errors.push(`Test ${index + 1}: arguments must be a JSON array, e.g. [1, 2]`);
+      }
+      if (!parseJson(test.expected).ok) {
+        errors.push(`Test ${index + 1}: expected result must be valid JSON`);
+      }
+    });
+  } else if (question.questionType === 'essay') {
+    if (question.minWords !== null && question.maxWords !== null && question.minWords > question.maxWords) {
+      errors.push('The minimum word count cannot be above the maximum');
+    }
+    question.rubric.forEach((criterion, index) => {
+      if (!criterion.criterion.trim()) {
+        errors.push(`Rubric row ${index + 1} needs a description`);
+      }
+      if (!(criterion.points > 0)) {
+        errors.push(`Rubric row ${index + 1} must be worth at least one point`);
+      }
+    });
+  } else if (!answer) {
+    errors.push('Correct answer is required');
+  }
+
+  return errors;
+};
+
+export const fromQuestionRow = (row: Tables<'questions'>): QuestionDraft => ({
+  id: row.id,
+  questionText: row.question_text,
+  options: parseStringList(row.options),
+  correctAnswer: isChoiceQuestion(row.question_type as QuestionType)
+    ? (row.correct_answer || '').toUpperCase()
+    : row.correct_answer || '',
+  questionType: row.question_type as QuestionType,
+  scoringRule: row.scoring_rule as ScoringRule,
+  acceptedAnswers: parseStringList(row.accepted_answers),
+  caseSensitive: row.case_sensitive,
+  answerTolerance: Number(row.answer_tolerance) || 0,
+  toleranceMode: row.tolerance_mode as ToleranceMode,
+  functionName: row.function_name || '',
+  starterCode: row.starter_code,
+  testCases: parseTestCases(row.test_cases).map(test => ({
+    args: JSON.stringify(test.args),
+    expected: JSON.stringify(test.expected)
+  })),
+  minWords: row.min_words,
+  maxWords: row.max_words,
+  rubric: parseRubric(row.rubric),
+  marks: row.marks,
+  negativeMarks: row.negative_marks,
+  sectionId: row.section_id,
+  topicTag: row.topic_tag || '',
+  explanation: row.explanation,
+  questionOrder: row.question_order ?? 0
+});
+
+export const toQuestionRow = (
+  question: QuestionDraft,
+  examId: string,
+  questionOrder: number
+): TablesInsert<'questions'> => {
+  const isChoice = isChoiceQuestion(question.questionType);
+  return {
+    exam_id: examId,
+    question_text: question.questionText.trim(),
+    options: isChoice ? question.options.map(option => option.trim()) : [],
+    correct_answer: isChoice
+      ? normalizeAnswerLetters(question.correctAnswer.trim())
+      : question.questionType === 'coding' || question.questionType === 'essay' ? '' : question.correctAnswer.trim(),
+    question_type: question.questionType,
+    scoring_rule: question.questionType === 'multiple' ? question.scoringRule : 'all_or_nothing',
+    accepted_answers: question.questionType === 'short_text'
+      ? question.acceptedAnswers.map(answer => answer.trim()).filter(Boolean)
+      : [],
+    case_sensitive: question.questionType === 'short_text' && question.caseSensitive,
+    answer_tolerance: question.questionType === 'numeric' ? question.answerTolerance : 0,
+    tolerance_mode: question.questionType === 'numeric' ? question.toleranceMode : 'absolute',
+    function_name: question.questionType === 'coding' ? question.functionName.trim() : null,
+    starter_code: question.questionType === 'coding' ? question.starterCode : '',
+    test_cases: question.questionType === 'coding' ? toTestCases(question.testCases) : [],
+    min_words: question.questionType === 'essay' ? question.minWords : null,
+    max_words: question.questionType === 'essay' ? question.maxWords : null,
+    rubric: question.questionType === 'essay'
+      ? question.rubric.map(({ criterion, points }) => ({ criterion: criterion.trim(), points }))
+      : [],
+    marks: question.marks,
+    negative_marks: allowsNegativeMarks(question.questionType) ? question.negativeMarks : null,
+    section_id: question.sectionId,
+    topic_tag: question.topicTag.trim() || null,
+    explanation: question.explanation.trim(),
+    question_order: questionOrder
+  };
+};
@@ -0,0 +1,135 @@
+import { format } from 'date-fns';
+import writeExcelFile from 'write-excel-file/browser';
+import type { SubmissionResult } from '@/lib/exam-results';
+import { isChoiceQuestion, normalizeAnswerLetters, type QuestionType } from '@/lib/questions';
+import { richTextToPlainText } from '@/lib/rich-text';
+
+export type ExportCell = string | number | null;
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+export interface ExportQuestion {
+  id: string;
+  questionType: QuestionType;
+}
+
+export interface ExportResponse {
+  submissionId: string;
+  questionId: string;
+  selectedAnswer: string | null;
+  sourceCode: string | null;
+  score: number | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// What the student answered, as text a spreadsheet can hold
+const formatAnswer = (question: ExportQuestion, response: ExportResponse) => {
+  if (question.questionType === 'coding') {
+    return response.sourceCode || '';
+  }
+  const answer = response.selectedAnswer || '';
+  if (isChoiceQuestion(question.questionType)) {
+    return answer === 'n' ? '' : normalizeAnswerLetters(answer);
+  }
+  return question.questionType === 'essay' ? richTextToPlainText(answer).trim() : answer;
+};
+
+const formatCorrectness = (answer: string, score: number | null) => {
+  if (!answer) return 'Unanswered';
+  if (score === null) return 'Pending';
+  if (score >= 1) return 'Correct';
+  return score > 0 ? 'Partial' : 'Wrong';
+};
+
+/**
+ * One row per attempt with the columns the college ERP asks for. With
+ * `questions`, each question in the exam adds an answer and a correctness
+ * column, left blank for students whose draw did not include it.
+ */
+export const buildResultsTable = (
+  results: SubmissionResult[],
+  questions?: ExportQuestion[],
+  responses: ExportResponse[] = []
+): ExportTable => {
+  const headers = [
+    'Student Name',
+    'Email',
+    'Roll Number',
+    'Total Score',
+    'Max Score',
+    'Percentage',
+    'Time Taken (minutes)',
+    'Submitted At'
+  ];
+  questions?.forEach((_, index) => {
+    headers.push(`Q${index + 1} Answer`, `Q${index + 1} Result`);
+  });
+
+  const responsesByAttempt = new Map<string, ExportResponse>(
+    responses.map(response => [`${response.submissionId}:${response.questionId}`, response])
+  );
+
+  const rows = results.map(result => {
+    const row: ExportCell[] = [
+      result.studentName,
+      result.email,
+      result.rollNumber,
+      result.totalScore,
+      result.maxScore,
+      result.totalScore !== null && result.maxScore ? round((result.totalScore / result.maxScore) * 100) : null,
+      result.timeTakenMinutes,
+      result.submittedAt ? format(new Date(result.submittedAt), 'yyyy-MM-dd HH:mm:ss') : null
+    ];
+    questions?.forEach(question => {
+      const response = responsesByAttempt.get(`${result.id}:${question.id}`);
+      if (!response) {
+        row.push(null, null);
+        return;
+      }
+      const answer = formatAnswer(question, response);
+      row.push(answer, formatCorrectness(answer, response.score));
+    });
+    return row;
+  });
+
+  return { headers, rows };
+};
+
+// Text starting like a formula (a name such as "=HYPERLINK(...)") is kept as
+// text; plain numbers such as "-0.5" are left alone
+const isFormulaLike = (text: string) => /^[=+\-@]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text);
+
+const toCsvField = (cell: ExportCell) => {
+  const text = cell === null ? '' : typeof cell === 'string' && isFormulaLike(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable) =>
+  [table.headers, ...table.rows].map(row => row.map(toCsvField).join(',')).join('\r\n');
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The byte order mark makes Excel read the file as UTF-8 instead of mangling names
+export const downloadCsv = (table: ExportTable, fileName: string) =>
+  downloadBlob(new Blob(['\uFEFF', toCsv(table)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+
+export const downloadXlsx = (table: ExportTable, fileName: string) =>
+  writeExcelFile([
+    table.headers.map(header => ({ value: header, fontWeight: 'bold' as const })),
+    ...table.rows
+  ]).toFile(`${fileName}.xlsx`);
+
+/** 'DS Mid-Term' -> 'ds-mid-term-results-2025-11-08' */
+export const getExportFileName = (examName: string, contents = 'results') =>
+  `${examName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'exam'}-${contents}-${format(new Date(), 'yyyy-MM-dd')}`;
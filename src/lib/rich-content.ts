@@ -0,0 +1,88 @@
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+import { Marked, type TokenizerAndRendererExtension } from 'marked';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-clike';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-sql';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-bash';
+
+// Public bucket that question images are uploaded to
+export const QUESTION_IMAGE_BUCKET = 'question-images';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Bad TeX shows up in red rather than breaking the whole question
+const renderMath = (tex: string, displayMode: boolean) =>
+  katex.renderToString(tex, { displayMode, throwOnError: false, output: 'html' });
+
+// $$ ... $$ on its own lines
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: (src) => src.match(/\$\$/)?.index,
+  tokenizer(src) {
+    const match = /^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n+|$)/.exec(src);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+    }
+  },
+  renderer: (token) => `<div class="math-block">${renderMath(token.text, true)}</div>`
+};
+
+// $ ... $ within a line. The closing $ may not be followed by a digit, so
+// prices such as "$5 and $10" stay text.
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: (src) => src.match(/\$/)?.index,
+  tokenizer(src) {
+    const match = /^\$\$([^$]+?)\$\$/.exec(src) || /^\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/.exec(src);
+    if (match) {
+      return { type: 'inlineMath', raw: match[0], text: match[1], displayMode: match[0].startsWith('$$') };
+    }
+  },
+  renderer: (token) => renderMath(token.text, token.displayMode)
+};
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  extensions: [blockMath, inlineMath],
+  renderer: {
+    code({ text, lang }) {
+      const language = (lang || '').trim().split(/\s+/)[0].toLowerCase();
+      const grammar = language ? Prism.languages[language] : undefined;
+      const highlighted = grammar ? Prism.highlight(text, grammar, language) : escapeHtml(text);
+      const className = `language-${grammar ? language : 'none'}`;
+      return `<pre class="${className}"><code class="${className}">${highlighted}</code></pre>\n`;
+    },
+    // Links open in a new tab so following one never leaves the exam
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${titleAttribute} target="_blank" rel="noopener noreferrer">${text}</a>`;
+    }
+  }
+});
+
+/**
+ * Renders question Markdown (stems and options) to HTML: GitHub-style Markdown
+ * with highlighted fenced code, $inline$ and $$block$$ LaTeX, and images. The
+ * result is sanitised, so raw HTML a question author types cannot run scripts.
+ */
+export const renderRichContent = (source: string) =>
+  DOMPurify.sanitize(markdown.parse(source, { async: false }), {
+    ADD_ATTR: ['target'],
+    FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select']
+  });
+
+/** Markdown that shows an uploaded image. */
+export const toImageMarkdown = (url: string, altText: string) =>
+  `![${altText.replace(/[[\]]/g, '')}](${url.replace(/\s/g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')})`;
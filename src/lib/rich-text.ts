@@ -0,0 +1,26 @@
+import DOMPurify from 'dompurify';
+
+// Formatting the essay editor can produce; anything else is stripped
+const RICH_TEXT_TAGS = ['p', 'div', 'br', 'b', 'strong', 'i', 'em', 'u', 'ul', 'ol', 'li'];
+
+/** Cleans student-written HTML before it is stored or shown to anyone. */
+export const sanitizeRichText = (html: string) =>
+  DOMPurify.sanitize(html, { ALLOWED_TAGS: RICH_TEXT_TAGS, ALLOWED_ATTR: [] });
+
+export const richTextToPlainText = (html: string) => {
+  const container = document.createElement('div');
+  container.innerHTML = sanitizeRichText(html.replace(/<(br|\/p|\/div|\/li)\s*\/?>/gi, ' $&'));
+  return container.textContent || '';
+};
+
+export const countWords = (html: string) => {
+  const text = richTextToPlainText(html).trim();
+  return text ? text.split(/\s+/).length : 0;
+};
+
+export const formatWordLimits = (minWords: number | null, maxWords: number | null) => {
+  if (minWords && maxWords) return `${minWords}–${maxWords} words`;
+  if (maxWords) return `Up to ${maxWords} words`;
+  if (minWords) return `At least ${minWords} words`;
+  return null;
+};
@@ -0,0 +1,41 @@
+// Deterministic shuffling for exam attempts. Every attempt carries a random
+// seed from the server, so a resumed attempt sees exactly the same order.
+
+// mulberry32: tiny, fast and good enough for ordering questions
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a, used to derive a per-question seed from the attempt seed
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const seededShuffle = <T>(items: readonly T[], seed: number): T[] => {
+  const random = createRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Display order of a question's options as indexes into its canonical
+ * options, e.g. [2, 0, 3, 1] shows option C first.
+ */
+export const getOptionOrder = (optionCount: number, seed: number, questionId: string) =>
+  seededShuffle(Array.from({ length: optionCount }, (_, index) => index), (seed ^ hashString(questionId)) >>> 0);
@@ -1,11 +1,15 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import AccessCodeEntry from '@/components/AccessCodeEntry';
 import StudentRegistration from '@/components/StudentRegistration';
+import ExamInstructions from '@/components/ExamInstructions';
 import ExamInterface from '@/components/ExamInterface';
 import ThankYouScreen from '@/components/ThankYouScreen';
+import type { ProctoringPolicy } from '@/lib/proctoring-policy';
 
-export type ExamPhase = 'access' | 'registration' | 'exam' | 'completed';
+export type ExamPhase = 'access' | 'registration' | 'instructions' | 'exam' | 'completed';
+
+export type AttemptStatus = 'in_progress' | 'submitted' | 'expired';
 
 export interface Student {
   id?: string;
@@ -21,20 +25,65 @@ export interface Exam {
   accessCode: string;
   duration?: number; // duration in minutes
   status: string;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  defaultMarks?: number;
+  defaultNegativeMarks?: number;
+  instructions?: string; // Markdown shown before the exam starts
+  proctoringPolicy?: ProctoringPolicy;
+}
+
+interface PersistedExamSession {
+  phase: ExamPhase;
+  exam: Exam | null;
+  student: Student | null;
+  consentedAt?: string | null;
 }
 
+// Kept per tab so a reload mid-exam lands back in the exam instead of the access screen
+const SESSION_STORAGE_KEY = 'code-quest-exam-session';
+
+const loadPersistedSession = (): PersistedExamSession | null => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error restoring exam session:', error);
+    return null;
+  }
+};
+
 const Index = () => {
-  const [currentPhase, setCurrentPhase] = useState<ExamPhase>('access');
-  const [exam, setExam] = useState<Exam | null>(null);
-  const [student, setStudent] = useState<Student | null>(null);
+  const [persisted] = useState(loadPersistedSession);
+  const [currentPhase, setCurrentPhase] = useState<ExamPhase>(persisted?.phase ?? 'access');
+  const [exam, setExam] = useState<Exam | null>(persisted?.exam ?? null);
+  const [student, setStudent] = useState<Student | null>(persisted?.student ?? null);
+  const [consentedAt, setConsentedAt] = useState<string | null>(persisted?.consentedAt ?? null);
+
+  useEffect(() => {
+    if (currentPhase === 'access' || currentPhase === 'completed') {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      return;
+    }
+    const session: PersistedExamSession = { phase: currentPhase, exam, student, consentedAt };
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  }, [currentPhase, exam, student, consentedAt]);
 
   const handleAccessCodeSuccess = (examData: Exam) => {
     setExam(examData);
     setCurrentPhase('registration');
   };
 
-  const handleStudentRegistration = (studentData: Student) => {
+  // A student resuming an attempt already accepted the instructions when they started it
+  const handleStudentRegistration = (studentData: Student, attemptStatus?: AttemptStatus) => {
     setStudent(studentData);
+    setCurrentPhase(attemptStatus === 'in_progress' ? 'exam' : 'instructions');
+  };
+
+  const handleExamStart = (acceptedAt: string) => {
+    setConsentedAt(acceptedAt);
     setCurrentPhase('exam');
   };
 
@@ -55,10 +104,19 @@ const Index = () => {
         />
       )}
       
+      {currentPhase === 'instructions' && exam && student && (
+        <ExamInstructions
+          exam={exam}
+          student={student}
+          onStart={handleExamStart}
+        />
+      )}
+      
       {currentPhase === 'exam' && exam && student && (
         <ExamInterface 
           exam={exam}
           student={student}
+          consentedAt={consentedAt}
           onComplete={handleExamComplete}
         />
       )}
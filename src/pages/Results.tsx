@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Award, BarChart3, Hash, Mail, Lock, Trophy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import AnswerReview, { type ReviewQuestion } from '@/components/AnswerReview';
+import { parseTestResults } from '@/lib/code-runner';
+import { formatExamDateTime } from '@/lib/exam-window';
+import { parseStringList, type QuestionType } from '@/lib/questions';
+
+interface StudentResult {
+  examName: string;
+  studentName: string;
+  status: string;
+  isFullyGraded: boolean;
+  submittedAt: string;
+  totalScore: number | null;
+  maxScore: number | null;
+  rank: number | null;
+  candidateCount: number | null;
+  percentile: number | null;
+  answerReviewReleased: boolean;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const Results = () => {
+  const [formData, setFormData] = useState({
+    accessCode: '',
+    rollNumber: '',
+    email: ''
+  });
+  const [result, setResult] = useState<StudentResult | null>(null);
+  const [review, setReview] = useState<ReviewQuestion[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingReview, setIsLoadingReview] = useState(false);
+  const { toast } = useToast();
+
+  const lookupArgs = {
+    p_access_code: formData.accessCode,
+    p_roll_number: formData.rollNumber,
+    p_email: formData.email
+  };
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.accessCode.trim() || !formData.rollNumber.trim() || !formData.email.trim()) {
+      toast({
+        title: "Incomplete Information",
+        description: "Please fill in all required fields",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    setReview(null);
+
+    try {
+      const { data, error } = await supabase.rpc('get_student_result', lookupArgs).maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+      if (!data) {
+        throw new Error('No result returned');
+      }
+
+      setResult({
+        examName: data.exam_name,
+        studentName: data.student_name,
+        status: data.status,
+        isFullyGraded: data.grading_status === 'graded',
+        submittedAt: data.submitted_at,
+        totalScore: data.total_score,
+        maxScore: data.max_score,
+        rank: data.rank,
+        candidateCount: data.candidate_count,
+        percentile: data.percentile,
+        answerReviewReleased: data.answer_review_released
+      });
+    } catch (error) {
+      console.error('Error fetching result:', error);
+      setResult(null);
+      toast({
+        title: "Result Not Available",
+        description: "No released result matches these details. Check them, or ask your instructor whether results are out.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadReview = async () => {
+    setIsLoadingReview(true);
+
+    try {
+      const { data, error } = await supabase.rpc('get_student_answer_review', lookupArgs);
+
+      if (error) {
+        throw error;
+      }
+
+      setReview((data || []).map(row => ({
+        id: row.question_id,
+        questionText: row.question_text,
+        questionType: row.question_type as QuestionType,
+        options: parseStringList(row.options),
+        correctAnswer: row.correct_answer,
+        acceptedAnswers: parseStringList(row.accepted_answers),
+        explanation: row.explanation,
+        selectedAnswer: row.selected_answer && row.selected_answer !== 'n' ? row.selected_answer : '',
+        sourceCode: row.source_code || '',
+        testResults: parseTestResults(row.test_results),
+        score: row.score,
+        marksAwarded: row.marks_awarded,
+        marks: row.marks,
+        graderComment: row.grader_comment || ''
+      })));
+    } catch (error) {
+      console.error('Error fetching answer review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the answer review.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingReview(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="mx-auto w-full max-w-3xl space-y-6 py-8">
+        <div className="text-center space-y-2">
+          <div className="flex justify-center">
+            <div className="p-3 bg-blue-100 rounded-full">
+              <Award className="h-8 w-8 text-blue-600" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Exam Results</h1>
+          <p className="text-gray-600">Results appear here once your instructor releases them</p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-blue-600" />
+              Find Your Result
+            </CardTitle>
+            <CardDescription>
+              Enter the exam's access code and your roll number, then confirm it is you with the email you registered with.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="accessCode" className="flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  Access Code
+                </Label>
+                <Input
+                  id="accessCode"
+                  value={formData.accessCode}
+                  onChange={(e) => handleInputChange('accessCode', e.target.value.toUpperCase())}
+                  className="font-mono tracking-wider"
+                  maxLength={10}
+                  placeholder="e.g., MATHS101"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rollNumber" className="flex items-center gap-2">
+                  <Hash className="h-4 w-4" />
+                  Roll Number
+                </Label>
+                <Input
+                  id="rollNumber"
+                  value={formData.rollNumber}
+                  onChange={(e) => handleInputChange('rollNumber', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Email Address
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => handleInputChange('email', e.target.value)}
+                />
+              </div>
+              <div className="md:col-span-3 flex items-center justify-between gap-4">
+                <Link to="/" className="text-sm text-blue-600 hover:text-blue-700 underline">
+                  Back to exam access
+                </Link>
+                <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
+                  {isLoading ? 'Checking...' : 'View Result'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Card className="shadow-lg border-0">
+            <CardHeader>
+              <CardTitle>{result.examName}</CardTitle>
+              <CardDescription>
+                {result.studentName} · Submitted {formatExamDateTime(result.submittedAt)}
+                {result.status === 'expired' && ' (automatically, when time ran out)'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {result.isFullyGraded && result.totalScore !== null ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="rounded-lg bg-blue-50 p-4 text-center">
+                    <Award className="h-6 w-6 text-blue-600 mx-auto mb-1" />
+                    <p className="text-sm text-blue-700">Score</p>
+                    <p className="text-2xl font-bold text-blue-900">
+                      {formatNumber(result.totalScore)}
+                      {result.maxScore !== null && ` / ${formatNumber(result.maxScore)}`}
+                    </p>
+                    {result.maxScore ? (
+                      <p className="text-sm text-blue-700">
+                        {formatNumber((result.totalScore / result.maxScore) * 100)}%
+                      </p>
+                    ) : null}
+                  </div>
+                  <div className="rounded-lg bg-green-50 p-4 text-center">
+                    <Trophy className="h-6 w-6 text-green-600 mx-auto mb-1" />
+                    <p className="text-sm text-green-700">Rank</p>
+                    <p className="text-2xl font-bold text-green-900">
+                      {result.rank ?? '—'}
+                      {result.candidateCount !== null && (
+                        <span className="text-base font-normal"> of {result.candidateCount}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="rounded-lg bg-purple-50 p-4 text-center">
+                    <BarChart3 className="h-6 w-6 text-purple-600 mx-auto mb-1" />
+                    <p className="text-sm text-purple-700">Percentile</p>
+                    <p className="text-2xl font-bold text-purple-900">
+                      {result.percentile !== null ? formatNumber(result.percentile) : '—'}
+                    </p>
+                    <p className="text-xs text-purple-700">Share of candidates you matched or beat</p>
+                  </div>
+                </div>
+              ) : (
+                <p className="rounded-lg bg-amber-50 p-4 text-amber-800">
+                  Some of your answers are still being marked. Check back later for your score and rank.
+                </p>
+              )}
+
+              {result.answerReviewReleased && review === null && (
+                <Button variant="outline" onClick={loadReview} disabled={isLoadingReview}>
+                  {isLoadingReview ? 'Loading...' : 'Review My Answers'}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {review && <AnswerReview questions={review} />}
+      </div>
+    </div>
+  );
+};
+
+export default Results;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Route, Routes } from 'react-router-dom';
+import { TeacherAuthProvider, useTeacherAuth } from '@/hooks/use-teacher-auth';
+import TeacherLogin from '@/components/teacher/TeacherLogin';
+import TeacherResetPassword from '@/components/teacher/TeacherResetPassword';
+import TeacherLayout from '@/components/teacher/TeacherLayout';
+import TeacherDashboard from '@/components/teacher/TeacherDashboard';
+import ExamEditor from '@/components/teacher/ExamEditor';
+import GradingQueue from '@/components/teacher/GradingQueue';
+import ExamResults from '@/components/teacher/ExamResults';
+import ItemAnalysis from '@/components/teacher/ItemAnalysis';
+
+const TeacherRoutes = () => {
+  const { teacher, isLoading, isPasswordRecovery } = useTeacherAuth();
+
+  if (isLoading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  // A recovery link signs the user in, so show the reset form before anything else
+  if (isPasswordRecovery) {
+    return <TeacherResetPassword />;
+  }
+
+  return (
+    <Routes>
+      <Route path="reset-password" element={<TeacherResetPassword />} />
+      {teacher ? (
+        <Route element={<TeacherLayout />}>
+          <Route index element={<TeacherDashboard />} />
+          <Route path="exams/:examId" element={<ExamEditor />} />
+          <Route path="exams/:examId/grading" element={<GradingQueue />} />
+          <Route path="exams/:examId/results" element={<ExamResults />} />
+          <Route path="exams/:examId/analysis" element={<ItemAnalysis />} />
+          <Route path="*" element={<TeacherDashboard />} />
+        </Route>
+      ) : (
+        <Route path="*" element={<TeacherLogin />} />
+      )}
+    </Routes>
+  );
+};
+
+const TeacherPortal = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <TeacherAuthProvider>
+        <TeacherRoutes />
+      </TeacherAuthProvider>
+    </div>
+  );
+};
+
+export default TeacherPortal;
@@ -0,0 +1,127 @@
+-- Teacher sign-in backed by the teachers table.
+-- Each teacher row is linked to a Supabase Auth user so the portal gets
+-- sessions and password reset for free, while teachers.password_hash stays
+-- the bcrypt hash of the teacher's current password.
+
+alter table public.teachers
+  add column if not exists user_id uuid unique references auth.users (id) on delete set null;
+
+-- Provision auth users for teachers that already have a bcrypt password hash.
+-- GoTrue stores bcrypt hashes as well, so existing passwords keep working.
+with provisioned as (
+  insert into auth.users (
+    instance_id, id, aud, role, email, encrypted_password,
+    email_confirmed_at, raw_app_meta_data, raw_user_meta_data, created_at, updated_at
+  )
+  select
+    '00000000-0000-0000-0000-000000000000',
+    gen_random_uuid(),
+    'authenticated',
+    'authenticated',
+    lower(t.email),
+    t.password_hash,
+    now(),
+    '{"provider": "email", "providers": ["email"]}'::jsonb,
+    jsonb_build_object('name', t.name),
+    now(),
+    now()
+  from public.teachers t
+  where t.user_id is null
+    and t.password_hash like '$2%'
+    and not exists (select 1 from auth.users u where lower(u.email) = lower(t.email))
+  returning id, email
+)
+insert into auth.identities (id, user_id, provider_id, provider, identity_data, created_at, updated_at)
+select
+  gen_random_uuid(),
+  p.id,
+  p.id::text,
+  'email',
+  jsonb_build_object('sub', p.id::text, 'email', p.email, 'email_verified', true),
+  now(),
+  now()
+from provisioned p;
+
+update public.teachers t
+set user_id = u.id
+from auth.users u
+where t.user_id is null
+  and lower(u.email) = lower(t.email);
+
+-- Link teachers created later (e.g. invited from the dashboard) by email.
+create or replace function public.link_teacher_auth_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.teachers
+  set user_id = new.id,
+      password_hash = coalesce(new.encrypted_password, password_hash)
+  where user_id is null
+    and lower(email) = lower(new.email);
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_link_teacher on auth.users;
+create trigger on_auth_user_created_link_teacher
+  after insert on auth.users
+  for each row execute function public.link_teacher_auth_user();
+
+-- Keep password_hash in step with password changes and resets.
+create or replace function public.sync_teacher_password_hash()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.teachers
+  set password_hash = new.encrypted_password,
+      updated_at = now()
+  where user_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_password_changed on auth.users;
+create trigger on_auth_user_password_changed
+  after update of encrypted_password on auth.users
+  for each row
+  when (new.encrypted_password is distinct from old.encrypted_password)
+  execute function public.sync_teacher_password_hash();
+
+-- Resolves the signed-in user to their teachers.id (null for students).
+create or replace function public.current_teacher_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.teachers where user_id = auth.uid()
+$$;
+
+alter table public.teachers enable row level security;
+
+drop policy if exists "Teachers can view their own profile" on public.teachers;
+create policy "Teachers can view their own profile"
+  on public.teachers for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Teachers can update their own profile" on public.teachers;
+create policy "Teachers can update their own profile"
+  on public.teachers for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- The hash and the auth link are only ever managed by the triggers above.
+revoke all on public.teachers from anon;
+revoke select, insert, update, delete on public.teachers from authenticated;
+grant select (id, user_id, name, email, college_name, department, created_at, updated_at)
+  on public.teachers to authenticated;
+grant update (name, college_name, department, updated_at) on public.teachers to authenticated;
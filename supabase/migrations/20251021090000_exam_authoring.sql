@@ -0,0 +1,82 @@
+-- Let signed-in teachers create and edit their own exams and questions, and
+-- students read the exam they were given the code for.
+
+alter table public.exams enable row level security;
+alter table public.questions enable row level security;
+
+drop policy if exists "Teachers can manage their own exams" on public.exams;
+create policy "Teachers can manage their own exams"
+  on public.exams for all
+  to authenticated
+  using (teacher_id = public.current_teacher_id())
+  with check (teacher_id = public.current_teacher_id());
+
+drop policy if exists "Teachers can manage questions of their own exams" on public.questions;
+create policy "Teachers can manage questions of their own exams"
+  on public.questions for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.exams e
+      where e.id = questions.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.exams e
+      where e.id = questions.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+-- Students are anonymous. They can read an exam only while it is active, and
+-- only with its access code in the x-access-code request header, so nobody can
+-- list the exams or their codes. The questions of active exams stay readable
+-- for the exam screen.
+drop policy if exists "Students can read an active exam by its access code" on public.exams;
+create policy "Students can read an active exam by its access code"
+  on public.exams for select
+  to anon
+  using (
+    status = 'active'
+    and upper(access_code) = upper(coalesce(current_setting('request.headers', true)::json ->> 'x-access-code', ''))
+  );
+
+-- The questions policy cannot look at exams directly: anon would only see the
+-- exams its own header unlocks.
+create or replace function public.is_exam_active(p_exam_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.exams where id = p_exam_id and status = 'active')
+$$;
+
+revoke execute on function public.is_exam_active(uuid) from public;
+grant execute on function public.is_exam_active(uuid) to anon, authenticated;
+
+drop policy if exists "Students can read questions of active exams" on public.questions;
+create policy "Students can read questions of active exams"
+  on public.questions for select
+  to anon
+  using (public.is_exam_active(exam_id));
+
+-- Access codes are typed by students, so they have to be unambiguous.
+create unique index if not exists exams_access_code_key on public.exams (upper(access_code));
+
+-- Every question carries exactly one answer letter. Existing rows are left
+-- for the teacher to fix in the editor rather than failing the migration.
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+alter table public.questions
+  add constraint questions_correct_answer_check
+  check (upper(correct_answer) in ('A', 'B', 'C', 'D')) not valid;
+
+alter table public.exams
+  drop constraint if exists exams_duration_minutes_check;
+alter table public.exams
+  add constraint exams_duration_minutes_check
+  check (duration_minutes is null or duration_minutes > 0) not valid;
@@ -0,0 +1,108 @@
+-- Grade submissions on the server so the answer key never reaches students.
+
+alter table public.responses
+  add column if not exists time_taken_seconds integer;
+
+-- Older clients copied the answer key onto every response row.
+alter table public.responses
+  drop column if exists correct_answer;
+
+create unique index if not exists responses_submission_question_key
+  on public.responses (submission_id, question_id);
+
+-- Students (anon) may read everything about a question except its answer.
+revoke select on public.questions from anon;
+grant select (id, exam_id, question_text, option_a, option_b, option_c, option_d, question_order, topic_tag, created_at)
+  on public.questions to anon;
+
+-- Students may record what they picked, but correctness is written by grade_submission only.
+revoke select, insert, update on public.responses from anon;
+grant select (id, submission_id, question_id, selected_answer, time_taken_seconds, created_at)
+  on public.responses to anon;
+grant insert (submission_id, question_id, selected_answer, time_taken_seconds)
+  on public.responses to anon;
+grant update (selected_answer, time_taken_seconds)
+  on public.responses to anon;
+
+revoke insert, update on public.submissions from anon;
+grant insert (student_id, exam_id, total_questions, time_taken_minutes)
+  on public.submissions to anon;
+grant update (submitted_at, time_taken_minutes)
+  on public.submissions to anon;
+
+-- Once a submission is handed in its responses are frozen, so a student cannot
+-- keep changing answers and regrading to probe the key.
+create or replace function public.guard_response_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- grade_submission itself updates is_correct on submitted rows
+  if current_setting('app.grading', true) = 'on' then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.submissions s
+    where s.id = new.submission_id
+      and s.submitted_at is not null
+  ) then
+    raise exception 'Submission % has already been submitted', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_response_write on public.responses;
+create trigger guard_response_write
+  before insert or update on public.responses
+  for each row execute function public.guard_response_write();
+
+-- Grades every response of a submitted attempt against the answer key and
+-- writes the total. Safe to call repeatedly.
+create or replace function public.grade_submission(p_submission_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score integer;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  update public.responses r
+  set is_correct = coalesce(lower(r.selected_answer) = lower(q.correct_answer), false)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select count(*) into v_score
+  from public.responses
+  where submission_id = p_submission_id
+    and is_correct;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
+
+grant execute on function public.grade_submission(uuid) to anon, authenticated;
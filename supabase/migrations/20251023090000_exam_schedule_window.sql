@@ -0,0 +1,43 @@
+-- Optional scheduling window for each exam. A null bound means "no limit".
+
+alter table public.exams
+  add column if not exists opens_at timestamptz,
+  add column if not exists closes_at timestamptz;
+
+alter table public.exams
+  drop constraint if exists exams_schedule_window_check;
+alter table public.exams
+  add constraint exams_schedule_window_check
+  check (opens_at is null or closes_at is null or closes_at > opens_at);
+
+-- The access code screen checks the window too, but nobody should be able to
+-- start an attempt outside it by talking to the API directly.
+create or replace function public.guard_submission_window()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam public.exams%rowtype;
+begin
+  select * into v_exam from public.exams where id = new.exam_id;
+
+  if v_exam.opens_at is not null and now() < v_exam.opens_at then
+    raise exception 'Exam % has not opened yet', new.exam_id
+      using errcode = 'P0001';
+  end if;
+
+  if v_exam.closes_at is not null and now() >= v_exam.closes_at then
+    raise exception 'Exam % has closed', new.exam_id
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_submission_window on public.submissions;
+create trigger guard_submission_window
+  before insert on public.submissions
+  for each row execute function public.guard_submission_window();
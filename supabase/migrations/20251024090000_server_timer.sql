@@ -0,0 +1,166 @@
+-- Server-authoritative exam clock. The deadline of an attempt is fixed when the
+-- submission row is created, using the database clock rather than the browser's.
+
+alter table public.submissions
+  add column if not exists started_at timestamptz,
+  add column if not exists deadline_at timestamptz;
+
+update public.submissions
+set started_at = coalesce(started_at, submitted_at, now())
+where started_at is null;
+
+alter table public.submissions
+  alter column started_at set default now(),
+  alter column started_at set not null;
+
+create or replace function public.set_submission_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam public.exams%rowtype;
+begin
+  select * into v_exam from public.exams where id = new.exam_id;
+
+  new.started_at := now();
+  new.deadline_at := now() + make_interval(mins => coalesce(v_exam.duration_minutes, 60));
+  if v_exam.closes_at is not null and v_exam.closes_at < new.deadline_at then
+    new.deadline_at := v_exam.closes_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_submission_deadline on public.submissions;
+create trigger set_submission_deadline
+  before insert on public.submissions
+  for each row execute function public.set_submission_deadline();
+
+-- Handing in stamps the server time and works out the time taken; a submitted
+-- attempt cannot be reopened or re-stamped.
+create or replace function public.stamp_submission()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.submitted_at is not null then
+    new.submitted_at := old.submitted_at;
+    new.time_taken_minutes := old.time_taken_minutes;
+  elsif new.submitted_at is not null then
+    new.submitted_at := least(now(), coalesce(old.deadline_at, now()));
+    new.time_taken_minutes := ceil(extract(epoch from (new.submitted_at - old.started_at)) / 60);
+  end if;
+
+  new.started_at := old.started_at;
+  new.deadline_at := old.deadline_at;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_submission on public.submissions;
+create trigger stamp_submission
+  before update on public.submissions
+  for each row execute function public.stamp_submission();
+
+-- Responses are refused once the attempt is handed in or its time is up. A few
+-- seconds of grace cover the request that was in flight when the clock hit zero.
+create or replace function public.guard_response_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_submission public.submissions%rowtype;
+begin
+  -- grade_submission itself updates is_correct on submitted rows
+  if current_setting('app.grading', true) = 'on' then
+    return new;
+  end if;
+
+  select * into v_submission from public.submissions where id = new.submission_id;
+
+  if v_submission.submitted_at is not null then
+    raise exception 'Submission % has already been submitted', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  if v_submission.deadline_at is not null
+     and now() > v_submission.deadline_at + interval '5 seconds' then
+    raise exception 'Time is up for submission %', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Unanswered questions are recorded as 'n' here rather than by the client, whose
+-- writes are refused once the deadline has passed.
+create or replace function public.grade_submission(p_submission_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score integer;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select s.id, q.id, 'n', 0
+  from public.submissions s
+  join public.questions q on q.exam_id = s.exam_id
+  where s.id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set is_correct = coalesce(lower(r.selected_answer) = lower(q.correct_answer), false)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select count(*) into v_score
+  from public.responses
+  where submission_id = p_submission_id
+    and is_correct;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
+
+-- Lets the client line its countdown up with the database clock.
+create or replace function public.get_submission_clock(p_submission_id uuid)
+returns table (started_at timestamptz, deadline_at timestamptz, server_now timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.started_at, s.deadline_at, now()
+  from public.submissions s
+  where s.id = p_submission_id
+$$;
+
+grant execute on function public.get_submission_clock(uuid) to anon, authenticated;
@@ -0,0 +1,102 @@
+-- Explicit attempt states so a student can come back to an unfinished attempt.
+--   in_progress: started, not yet handed in, deadline not passed
+--   submitted:   handed in by the student (or their timer) before the deadline
+--   expired:     never handed in; closed by the server after the deadline
+
+alter table public.submissions
+  add column if not exists status text not null default 'in_progress',
+  add column if not exists current_question_index integer not null default 0;
+
+update public.submissions
+set status = 'submitted'
+where submitted_at is not null
+  and status = 'in_progress';
+
+alter table public.submissions
+  drop constraint if exists submissions_status_check;
+alter table public.submissions
+  add constraint submissions_status_check
+  check (status in ('in_progress', 'submitted', 'expired'));
+
+create index if not exists submissions_student_exam_idx
+  on public.submissions (student_id, exam_id);
+
+alter table public.responses
+  add column if not exists marked_for_review boolean not null default false;
+
+grant select (marked_for_review) on public.responses to anon;
+grant insert (marked_for_review) on public.responses to anon;
+grant update (marked_for_review) on public.responses to anon;
+grant update (current_question_index) on public.submissions to anon;
+
+create or replace function public.stamp_submission()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.submitted_at is not null then
+    new.submitted_at := old.submitted_at;
+    new.time_taken_minutes := old.time_taken_minutes;
+    new.status := old.status;
+  elsif new.submitted_at is not null then
+    -- Anything arriving well after the deadline was closed by the server, not the student
+    if old.deadline_at is not null and now() > old.deadline_at + interval '5 seconds' then
+      new.status := 'expired';
+    else
+      new.status := 'submitted';
+    end if;
+    new.submitted_at := least(now(), coalesce(old.deadline_at, now()));
+    new.time_taken_minutes := ceil(extract(epoch from (new.submitted_at - old.started_at)) / 60);
+  else
+    new.status := old.status;
+  end if;
+
+  new.started_at := old.started_at;
+  new.deadline_at := old.deadline_at;
+  return new;
+end;
+$$;
+
+-- Returns the student's latest attempt at an exam, first closing it as expired
+-- if its deadline passed while nobody was there to hand it in.
+create or replace function public.get_attempt_status(p_exam_id uuid, p_student_id uuid)
+returns table (submission_id uuid, status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_submission public.submissions%rowtype;
+begin
+  select * into v_submission
+  from public.submissions s
+  where s.exam_id = p_exam_id
+    and s.student_id = p_student_id
+  order by s.started_at desc
+  limit 1;
+
+  if not found then
+    return;
+  end if;
+
+  if v_submission.status = 'in_progress'
+     and v_submission.deadline_at is not null
+     and now() > v_submission.deadline_at + interval '5 seconds' then
+    update public.submissions s
+    set submitted_at = now()
+    where s.id = v_submission.id;
+
+    perform public.grade_submission(v_submission.id);
+
+    select * into v_submission from public.submissions s where s.id = v_submission.id;
+  end if;
+
+  submission_id := v_submission.id;
+  status := v_submission.status;
+  return next;
+end;
+$$;
+
+grant execute on function public.get_attempt_status(uuid, uuid) to anon, authenticated;
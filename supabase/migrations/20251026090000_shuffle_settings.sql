@@ -0,0 +1,10 @@
+-- Per-exam shuffling of question and option order. Each attempt gets its own
+-- seed so the order is stable across reloads and resumes. Responses always
+-- store the canonical option letter, so grading is unaffected by shuffling.
+
+alter table public.exams
+  add column if not exists shuffle_questions boolean not null default false,
+  add column if not exists shuffle_options boolean not null default false;
+
+alter table public.submissions
+  add column if not exists shuffle_seed integer not null default floor(random() * 2147483647)::integer;
@@ -0,0 +1,186 @@
+-- Question pools: an exam can hold more questions than each student sees.
+--   draw_count null, draw_rules []      every question, in question_order
+--   draw_count n,    draw_rules []      n questions drawn at random
+--   draw_rules [{topic_tag, count}...]  count questions drawn from each topic
+-- The drawn set is stored per submission so grading, resume and review all use it.
+
+alter table public.exams
+  add column if not exists draw_count integer,
+  add column if not exists draw_rules jsonb not null default '[]'::jsonb;
+
+alter table public.exams
+  drop constraint if exists exams_draw_count_check;
+alter table public.exams
+  add constraint exams_draw_count_check
+  check (draw_count is null or draw_count > 0);
+
+create table if not exists public.submission_questions (
+  submission_id uuid not null references public.submissions (id) on delete cascade,
+  question_id uuid not null references public.questions (id) on delete cascade,
+  position integer not null default 0,
+  primary key (submission_id, question_id)
+);
+
+alter table public.submission_questions enable row level security;
+
+drop policy if exists "Anyone can read drawn questions" on public.submission_questions;
+create policy "Anyone can read drawn questions"
+  on public.submission_questions for select
+  to anon, authenticated
+  using (true);
+
+grant select on public.submission_questions to anon, authenticated;
+
+-- Existing attempts saw every question of their exam.
+insert into public.submission_questions (submission_id, question_id, position)
+select s.id, q.id, row_number() over (partition by s.id order by q.question_order, q.created_at)
+from public.submissions s
+join public.questions q on q.exam_id = s.exam_id
+on conflict do nothing;
+
+create or replace function public.draw_submission_questions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam public.exams%rowtype;
+  v_rule jsonb;
+begin
+  select * into v_exam from public.exams where id = new.exam_id;
+
+  if jsonb_array_length(v_exam.draw_rules) > 0 then
+    for v_rule in select * from jsonb_array_elements(v_exam.draw_rules) loop
+      insert into public.submission_questions (submission_id, question_id)
+      select new.id, q.id
+      from public.questions q
+      where q.exam_id = new.exam_id
+        and coalesce(q.topic_tag, '') = coalesce(v_rule->>'topic_tag', '')
+      order by random()
+      limit greatest((v_rule->>'count')::integer, 0)
+      on conflict do nothing;
+    end loop;
+  else
+    insert into public.submission_questions (submission_id, question_id)
+    select new.id, q.id
+    from public.questions q
+    where q.exam_id = new.exam_id
+    order by random()
+    limit v_exam.draw_count; -- null means no limit
+  end if;
+
+  -- Drawn questions keep the teacher's order; shuffling is a separate setting
+  update public.submission_questions sq
+  set position = ranked.position
+  from (
+    select sq2.question_id,
+           row_number() over (order by q.question_order, q.created_at) as position
+    from public.submission_questions sq2
+    join public.questions q on q.id = sq2.question_id
+    where sq2.submission_id = new.id
+  ) ranked
+  where sq.submission_id = new.id
+    and sq.question_id = ranked.question_id;
+
+  update public.submissions
+  set total_questions = (select count(*) from public.submission_questions where submission_id = new.id)
+  where id = new.id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists draw_submission_questions on public.submissions;
+create trigger draw_submission_questions
+  after insert on public.submissions
+  for each row execute function public.draw_submission_questions();
+
+-- Only the drawn questions count; the rest of the pool is not "unanswered".
+create or replace function public.grade_submission(p_submission_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score integer;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id, sq.question_id, 'n', 0
+  from public.submission_questions sq
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set is_correct = coalesce(lower(r.selected_answer) = lower(q.correct_answer), false)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select count(*) into v_score
+  from public.responses
+  where submission_id = p_submission_id
+    and is_correct;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
+
+-- A student may only answer the questions drawn for them.
+create or replace function public.guard_response_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_submission public.submissions%rowtype;
+begin
+  -- grade_submission itself updates is_correct on submitted rows
+  if current_setting('app.grading', true) = 'on' then
+    return new;
+  end if;
+
+  select * into v_submission from public.submissions where id = new.submission_id;
+
+  if v_submission.submitted_at is not null then
+    raise exception 'Submission % has already been submitted', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  if v_submission.deadline_at is not null
+     and now() > v_submission.deadline_at + interval '5 seconds' then
+    raise exception 'Time is up for submission %', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  if not exists (
+    select 1 from public.submission_questions sq
+    where sq.submission_id = new.submission_id
+      and sq.question_id = new.question_id
+  ) then
+    raise exception 'Question % is not part of submission %', new.question_id, new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,51 @@
+-- Proctoring evidence: every suspicious browser event during an attempt is
+-- recorded against the submission so teachers can review what happened.
+
+create table if not exists public.proctoring_events (
+  id uuid primary key default gen_random_uuid(),
+  submission_id uuid not null references public.submissions (id) on delete cascade,
+  event_type text not null,
+  occurred_at timestamptz not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint proctoring_events_event_type_check check (
+    event_type in (
+      'tab_switch', 'fullscreen_exit', 'window_blur',
+      'copy', 'cut', 'paste', 'context_menu', 'auto_submit'
+    )
+  )
+);
+
+create index if not exists proctoring_events_submission_idx
+  on public.proctoring_events (submission_id, occurred_at);
+
+alter table public.proctoring_events enable row level security;
+
+-- Students can only append, and only while their attempt is open.
+drop policy if exists "Students can log events for open attempts" on public.proctoring_events;
+create policy "Students can log events for open attempts"
+  on public.proctoring_events for insert
+  to anon, authenticated
+  with check (
+    exists (
+      select 1 from public.submissions s
+      where s.id = proctoring_events.submission_id
+        and s.status = 'in_progress'
+    )
+  );
+
+drop policy if exists "Teachers can view events for their exams" on public.proctoring_events;
+create policy "Teachers can view events for their exams"
+  on public.proctoring_events for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.submissions s
+      join public.exams e on e.id = s.exam_id
+      where s.id = proctoring_events.submission_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+grant insert (submission_id, event_type, occurred_at, details) on public.proctoring_events to anon, authenticated;
+grant select on public.proctoring_events to authenticated;
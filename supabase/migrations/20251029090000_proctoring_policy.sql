@@ -0,0 +1,32 @@
+-- Per-exam proctoring policy. The defaults reproduce the original hard-coded
+-- rule: leaving fullscreen auto-submits after two seconds, tab switches only warn.
+
+alter table public.exams
+  add column if not exists proctoring_policy jsonb not null default
+    '{"require_fullscreen": true, "count_tab_switches": false, "max_warnings": 0, "grace_period_seconds": 2}'::jsonb;
+
+-- Violations are proctoring events flagged {"violation": true}. Keeping a running
+-- count on the submission lets a resumed attempt pick up its remaining warnings.
+alter table public.submissions
+  add column if not exists violation_count integer not null default 0;
+
+create or replace function public.count_proctoring_violation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce((new.details->>'violation')::boolean, false) then
+    update public.submissions
+    set violation_count = violation_count + 1
+    where id = new.submission_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists count_proctoring_violation on public.proctoring_events;
+create trigger count_proctoring_violation
+  after insert on public.proctoring_events
+  for each row execute function public.count_proctoring_violation();
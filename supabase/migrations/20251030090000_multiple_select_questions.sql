@@ -0,0 +1,138 @@
+-- "Select all that apply" questions. correct_answer and selected_answer hold
+-- every chosen letter in alphabetical order ('AC'); single-answer questions are
+-- unchanged. A response now earns a score between 0 and 1 instead of a flag:
+--   all_or_nothing  1 for exactly the correct set, otherwise 0
+--   proportional    share of options judged right (picked if correct, left if not)
+--   penalty         (correct picks - wrong picks) / number of correct options, at least 0
+
+alter table public.questions
+  add column if not exists question_type text not null default 'single',
+  add column if not exists scoring_rule text not null default 'all_or_nothing';
+
+alter table public.questions
+  drop constraint if exists questions_question_type_check;
+alter table public.questions
+  add constraint questions_question_type_check
+  check (question_type in ('single', 'multiple'));
+
+alter table public.questions
+  drop constraint if exists questions_scoring_rule_check;
+alter table public.questions
+  add constraint questions_scoring_rule_check
+  check (scoring_rule in ('all_or_nothing', 'proportional', 'penalty'));
+
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+alter table public.questions
+  add constraint questions_correct_answer_check
+  check (
+    case question_type
+      when 'single' then upper(correct_answer) ~ '^[A-D]$'
+      else upper(correct_answer) ~ '^[A-D]{1,4}$'
+    end
+  ) not valid;
+
+grant select (question_type, scoring_rule) on public.questions to anon;
+
+alter table public.responses
+  add column if not exists score numeric;
+
+alter table public.submissions
+  alter column total_score type numeric using total_score::numeric;
+
+create or replace function public.score_response(
+  p_question_type text,
+  p_scoring_rule text,
+  p_correct_answer text,
+  p_selected_answer text,
+  p_option_count integer default 4
+)
+returns numeric
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_correct text[];
+  v_selected text[];
+  v_hits integer;
+  v_misses integer;
+begin
+  if p_selected_answer is null or lower(p_selected_answer) = 'n' or p_selected_answer = '' then
+    return 0;
+  end if;
+
+  if p_question_type = 'single' then
+    return case when lower(p_selected_answer) = lower(p_correct_answer) then 1 else 0 end;
+  end if;
+
+  v_correct := array(select distinct c from regexp_split_to_table(upper(p_correct_answer), '') c);
+  v_selected := array(select distinct c from regexp_split_to_table(upper(p_selected_answer), '') c);
+  v_hits := cardinality(array(select unnest(v_selected) intersect select unnest(v_correct)));
+  v_misses := cardinality(v_selected) - v_hits;
+
+  return case p_scoring_rule
+    when 'proportional' then
+      round((v_hits + (p_option_count - cardinality(v_correct) - v_misses))::numeric / p_option_count, 4)
+    when 'penalty' then
+      greatest(round((v_hits - v_misses)::numeric / cardinality(v_correct), 4), 0)
+    else
+      case when v_hits = cardinality(v_correct) and v_misses = 0 then 1 else 0 end
+  end;
+end;
+$$;
+
+-- The score type changes, so the old function has to go first.
+drop function if exists public.grade_submission(uuid);
+
+create function public.grade_submission(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score numeric;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id, sq.question_id, 'n', 0
+  from public.submission_questions sq
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set score = public.score_response(q.question_type, q.scoring_rule, q.correct_answer, r.selected_answer)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  update public.responses
+  set is_correct = score = 1
+  where submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select coalesce(sum(score), 0) into v_score
+  from public.responses
+  where submission_id = p_submission_id;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
+
+grant execute on function public.grade_submission(uuid) to anon, authenticated;
@@ -0,0 +1,94 @@
+-- Options move from the fixed option_a..option_d columns into a JSON array of
+-- 2 to 8 strings. Letters still identify options by position (A is options[0])
+-- so correct_answer, selected_answer and existing responses keep their meaning.
+
+alter table public.questions
+  add column if not exists options jsonb not null default '[]'::jsonb;
+
+update public.questions
+set options = jsonb_build_array(option_a, option_b, option_c, option_d)
+where options = '[]'::jsonb;
+
+alter table public.questions
+  drop column if exists option_a,
+  drop column if exists option_b,
+  drop column if exists option_c,
+  drop column if exists option_d;
+
+alter table public.questions
+  drop constraint if exists questions_options_check;
+alter table public.questions
+  add constraint questions_options_check
+  check (jsonb_typeof(options) = 'array' and jsonb_array_length(options) between 2 and 8);
+
+-- Answer letters must point at options that exist
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+alter table public.questions
+  add constraint questions_correct_answer_check
+  check (
+    upper(correct_answer) ~ (
+      '^[A-' || chr(64 + jsonb_array_length(options)) || ']'
+      || case question_type when 'single' then '' else '+' end
+      || '$'
+    )
+  ) not valid;
+
+grant select (options) on public.questions to anon;
+
+-- Proportional scoring needs to know how many options the question has.
+create or replace function public.grade_submission(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score numeric;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id, sq.question_id, 'n', 0
+  from public.submission_questions sq
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set score = public.score_response(
+    q.question_type,
+    q.scoring_rule,
+    q.correct_answer,
+    r.selected_answer,
+    jsonb_array_length(q.options)
+  )
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  update public.responses
+  set is_correct = score = 1
+  where submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select coalesce(sum(score), 0) into v_score
+  from public.responses
+  where submission_id = p_submission_id;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
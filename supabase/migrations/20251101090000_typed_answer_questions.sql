@@ -0,0 +1,197 @@
+-- Questions answered by typing instead of picking an option.
+--   numeric     correct_answer is the expected value; answers within
+--               answer_tolerance of it score (absolute units, or percent of the
+--               value when tolerance_mode = 'relative')
+--   short_text  correct_answer is the preferred answer, accepted_answers holds
+--               alternatives; comparison ignores case unless case_sensitive and
+--               always ignores surrounding and repeated whitespace
+-- Both have no options. selected_answer holds whatever the student typed.
+
+alter table public.questions
+  add column if not exists accepted_answers jsonb not null default '[]'::jsonb,
+  add column if not exists case_sensitive boolean not null default false,
+  add column if not exists answer_tolerance numeric not null default 0,
+  add column if not exists tolerance_mode text not null default 'absolute';
+
+alter table public.questions
+  drop constraint if exists questions_question_type_check;
+alter table public.questions
+  add constraint questions_question_type_check
+  check (question_type in ('single', 'multiple', 'numeric', 'short_text'));
+
+alter table public.questions
+  drop constraint if exists questions_tolerance_check;
+alter table public.questions
+  add constraint questions_tolerance_check
+  check (answer_tolerance >= 0 and tolerance_mode in ('absolute', 'relative'));
+
+alter table public.questions
+  drop constraint if exists questions_options_check;
+alter table public.questions
+  add constraint questions_options_check
+  check (
+    jsonb_typeof(options) = 'array'
+    and case
+      when question_type in ('single', 'multiple') then jsonb_array_length(options) between 2 and 8
+      else jsonb_array_length(options) = 0
+    end
+  );
+
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+alter table public.questions
+  add constraint questions_correct_answer_check
+  check (
+    case question_type
+      when 'numeric' then correct_answer ~ '^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$'
+      when 'short_text' then btrim(correct_answer) <> ''
+      else upper(correct_answer) ~ (
+        '^[A-' || chr(64 + greatest(jsonb_array_length(options), 1)) || ']'
+        || case question_type when 'single' then '' else '+' end
+        || '$'
+      )
+    end
+  ) not valid;
+
+-- The new answer-key columns stay hidden from students: no select grant for anon.
+
+-- Free-text answers can be longer than an option letter
+alter table public.responses
+  alter column selected_answer type text;
+
+create or replace function public.normalize_text_answer(p_answer text, p_case_sensitive boolean)
+returns text
+language sql
+immutable
+as $$
+  select case when p_case_sensitive then v else lower(v) end
+  from (select regexp_replace(btrim(coalesce(p_answer, '')), '\s+', ' ', 'g') as v) normalized;
+$$;
+
+-- Scores one response against its question, from 0 to 1. Replaces the
+-- per-column version now that the answer key spans several columns.
+drop function if exists public.score_response(text, text, text, text, integer);
+
+create or replace function public.score_response(p_question public.questions, p_selected_answer text)
+returns numeric
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_option_count integer := jsonb_array_length(p_question.options);
+  v_correct text[];
+  v_selected text[];
+  v_hits integer;
+  v_misses integer;
+  v_value numeric;
+  v_expected numeric;
+  v_allowed numeric;
+begin
+  if p_selected_answer is null or btrim(p_selected_answer) = '' then
+    return 0;
+  end if;
+
+  if p_question.question_type = 'numeric' then
+    if btrim(p_selected_answer) !~ '^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$' then
+      return 0;
+    end if;
+    v_value := btrim(p_selected_answer)::numeric;
+    v_expected := p_question.correct_answer::numeric;
+    v_allowed := case p_question.tolerance_mode
+      when 'relative' then abs(v_expected) * p_question.answer_tolerance / 100
+      else p_question.answer_tolerance
+    end;
+    return case when abs(v_value - v_expected) <= v_allowed then 1 else 0 end;
+  end if;
+
+  if p_question.question_type = 'short_text' then
+    return case when exists (
+      select 1
+      from jsonb_array_elements_text(
+        jsonb_build_array(p_question.correct_answer) || p_question.accepted_answers
+      ) accepted
+      where normalize_text_answer(accepted, p_question.case_sensitive)
+          = normalize_text_answer(p_selected_answer, p_question.case_sensitive)
+    ) then 1 else 0 end;
+  end if;
+
+  -- Choice questions: 'n' marks an unanswered question
+  if lower(p_selected_answer) = 'n' then
+    return 0;
+  end if;
+
+  if p_question.question_type = 'single' then
+    return case when lower(p_selected_answer) = lower(p_question.correct_answer) then 1 else 0 end;
+  end if;
+
+  v_correct := array(select distinct c from regexp_split_to_table(upper(p_question.correct_answer), '') c);
+  v_selected := array(select distinct c from regexp_split_to_table(upper(p_selected_answer), '') c);
+  v_hits := cardinality(array(select unnest(v_selected) intersect select unnest(v_correct)));
+  v_misses := cardinality(v_selected) - v_hits;
+
+  return case p_question.scoring_rule
+    when 'proportional' then
+      round((v_hits + (v_option_count - cardinality(v_correct) - v_misses))::numeric / v_option_count, 4)
+    when 'penalty' then
+      greatest(round((v_hits - v_misses)::numeric / cardinality(v_correct), 4), 0)
+    else
+      case when v_hits = cardinality(v_correct) and v_misses = 0 then 1 else 0 end
+  end;
+end;
+$$;
+
+create or replace function public.grade_submission(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score numeric;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  -- Unanswered questions are recorded too: 'n' for choice questions, blank otherwise
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id,
+         sq.question_id,
+         case when q.question_type in ('single', 'multiple') then 'n' else '' end,
+         0
+  from public.submission_questions sq
+  join public.questions q on q.id = sq.question_id
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set score = public.score_response(q, r.selected_answer)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  update public.responses
+  set is_correct = score = 1
+  where submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select coalesce(sum(score), 0) into v_score
+  from public.responses
+  where submission_id = p_submission_id;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
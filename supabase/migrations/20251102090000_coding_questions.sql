@@ -0,0 +1,238 @@
+-- Coding questions. The student writes function_name in code_language,
+-- starting from starter_code, and it is checked against test_cases:
+--   [{"args": [1, 2], "expected": 3}, ...]
+-- Tests run in a sandboxed worker in the student's browser. The browser only
+-- gets each test's arguments (test_inputs) and stores the source and what the
+-- function returned, one {"output": ...} entry per test, on the response. The
+-- expected values never leave the server, which compares them when grading.
+-- Each passing test is worth an equal share of the question. The outputs are
+-- still reported by the client, so the source is kept for the teacher to
+-- re-check if in doubt.
+
+alter table public.questions
+  add column if not exists code_language text not null default 'javascript',
+  add column if not exists function_name text,
+  add column if not exists starter_code text not null default '',
+  add column if not exists test_cases jsonb not null default '[]'::jsonb;
+
+alter table public.questions
+  drop constraint if exists questions_question_type_check;
+alter table public.questions
+  add constraint questions_question_type_check
+  check (question_type in ('single', 'multiple', 'numeric', 'short_text', 'coding'));
+
+alter table public.questions
+  drop constraint if exists questions_coding_check;
+alter table public.questions
+  add constraint questions_coding_check
+  check (
+    code_language in ('javascript')
+    and jsonb_typeof(test_cases) = 'array'
+    and (
+      question_type <> 'coding'
+      or (function_name ~ '^[A-Za-z_$][A-Za-z0-9_$]*$' and jsonb_array_length(test_cases) > 0)
+    )
+  );
+
+-- A coding question's key is its test cases; correct_answer is left empty.
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+alter table public.questions
+  add constraint questions_correct_answer_check
+  check (
+    case question_type
+      when 'numeric' then correct_answer ~ '^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$'
+      when 'short_text' then btrim(correct_answer) <> ''
+      when 'coding' then true
+      else upper(correct_answer) ~ (
+        '^[A-' || chr(64 + greatest(jsonb_array_length(options), 1)) || ']'
+        || case question_type when 'single' then '' else '+' end
+        || '$'
+      )
+    end
+  ) not valid;
+
+-- Arguments only, for the browser to call the function with
+create or replace function public.test_case_inputs(p_test_cases jsonb)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object('args', test.value->'args') order by test.position), '[]'::jsonb)
+  from jsonb_array_elements(p_test_cases) with ordinality as test(value, position)
+$$;
+
+alter table public.questions
+  add column if not exists test_inputs jsonb
+  generated always as (public.test_case_inputs(test_cases)) stored;
+
+-- The browser runs the tests, so it needs their arguments but not the expected values
+grant select (code_language, function_name, starter_code, test_inputs) on public.questions to anon;
+
+alter table public.responses
+  add column if not exists source_code text,
+  add column if not exists test_results jsonb;
+
+grant select (source_code, test_results) on public.responses to anon;
+grant insert (source_code, test_results) on public.responses to anon;
+grant update (source_code, test_results) on public.responses to anon;
+
+-- One result per teacher-defined test, with "passed" worked out from the
+-- returned output. A "passed" sent by the client is dropped, and so are
+-- results beyond the last test.
+create or replace function public.check_test_results(p_test_cases jsonb, p_test_results jsonb)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(
+    (case when jsonb_typeof(result.value) = 'object' then result.value - 'passed' else '{}'::jsonb end)
+      || jsonb_build_object('passed', coalesce(result.value ? 'output' and result.value->'output' = test.value->'expected', false))
+    order by test.position
+  ), '[]'::jsonb)
+  from jsonb_array_elements(p_test_cases) with ordinality as test(value, position)
+  left join jsonb_array_elements(
+    case when jsonb_typeof(p_test_results) = 'array' then p_test_results else '[]'::jsonb end
+  ) with ordinality as result(value, position) on result.position = test.position
+$$;
+
+drop function if exists public.score_response(public.questions, text);
+
+create or replace function public.score_response(
+  p_question public.questions,
+  p_selected_answer text,
+  p_test_results jsonb default null
+)
+returns numeric
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_option_count integer := jsonb_array_length(p_question.options);
+  v_correct text[];
+  v_selected text[];
+  v_hits integer;
+  v_misses integer;
+  v_value numeric;
+  v_expected numeric;
+  v_allowed numeric;
+begin
+  -- Each test passes only if its output matches the expected value kept here
+  if p_question.question_type = 'coding' then
+    return round((
+      select count(*)
+      from jsonb_array_elements(public.check_test_results(p_question.test_cases, p_test_results)) result
+      where (result->>'passed')::boolean
+    )::numeric / jsonb_array_length(p_question.test_cases), 4);
+  end if;
+
+  if p_selected_answer is null or btrim(p_selected_answer) = '' then
+    return 0;
+  end if;
+
+  if p_question.question_type = 'numeric' then
+    if btrim(p_selected_answer) !~ '^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$' then
+      return 0;
+    end if;
+    v_value := btrim(p_selected_answer)::numeric;
+    v_expected := p_question.correct_answer::numeric;
+    v_allowed := case p_question.tolerance_mode
+      when 'relative' then abs(v_expected) * p_question.answer_tolerance / 100
+      else p_question.answer_tolerance
+    end;
+    return case when abs(v_value - v_expected) <= v_allowed then 1 else 0 end;
+  end if;
+
+  if p_question.question_type = 'short_text' then
+    return case when exists (
+      select 1
+      from jsonb_array_elements_text(
+        jsonb_build_array(p_question.correct_answer) || p_question.accepted_answers
+      ) accepted
+      where normalize_text_answer(accepted, p_question.case_sensitive)
+          = normalize_text_answer(p_selected_answer, p_question.case_sensitive)
+    ) then 1 else 0 end;
+  end if;
+
+  -- Choice questions: 'n' marks an unanswered question
+  if lower(p_selected_answer) = 'n' then
+    return 0;
+  end if;
+
+  if p_question.question_type = 'single' then
+    return case when lower(p_selected_answer) = lower(p_question.correct_answer) then 1 else 0 end;
+  end if;
+
+  v_correct := array(select distinct c from regexp_split_to_table(upper(p_question.correct_answer), '') c);
+  v_selected := array(select distinct c from regexp_split_to_table(upper(p_selected_answer), '') c);
+  v_hits := cardinality(array(select unnest(v_selected) intersect select unnest(v_correct)));
+  v_misses := cardinality(v_selected) - v_hits;
+
+  return case p_question.scoring_rule
+    when 'proportional' then
+      round((v_hits + (v_option_count - cardinality(v_correct) - v_misses))::numeric / v_option_count, 4)
+    when 'penalty' then
+      greatest(round((v_hits - v_misses)::numeric / cardinality(v_correct), 4), 0)
+    else
+      case when v_hits = cardinality(v_correct) and v_misses = 0 then 1 else 0 end
+  end;
+end;
+$$;
+
+create or replace function public.grade_submission(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score numeric;
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  -- Unanswered questions are recorded too: 'n' for choice questions, blank otherwise
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id,
+         sq.question_id,
+         case when q.question_type in ('single', 'multiple') then 'n' else '' end,
+         0
+  from public.submission_questions sq
+  join public.questions q on q.id = sq.question_id
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set score = public.score_response(q, r.selected_answer, r.test_results)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  update public.responses
+  set is_correct = score = 1
+  where submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  select coalesce(sum(score), 0) into v_score
+  from public.responses
+  where submission_id = p_submission_id;
+
+  update public.submissions
+  set total_score = v_score
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
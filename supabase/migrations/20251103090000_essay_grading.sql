@@ -0,0 +1,449 @@
+-- Essay questions. The student writes rich text (sanitised HTML in
+-- selected_answer), optionally within min_words..max_words. Essays cannot be
+-- scored automatically: a teacher marks each one against the question's rubric
+--   [{"criterion": "Argument", "points": 5}, ...]
+-- and the submission stays in grading_status 'needs_grading' with no
+-- total_score until every essay in it is marked. Blank essays score 0 at once.
+--
+-- Coding answers go through the same queue. Their automatic score rests on
+-- outputs reported by the student's browser, so it only counts once a teacher
+-- has read the code and confirmed (or corrected) it. Empty ones score 0 at once.
+
+alter table public.questions
+  add column if not exists min_words integer,
+  add column if not exists max_words integer,
+  add column if not exists rubric jsonb not null default '[]'::jsonb;
+
+alter table public.questions
+  drop constraint if exists questions_question_type_check;
+alter table public.questions
+  add constraint questions_question_type_check
+  check (question_type in ('single', 'multiple', 'numeric', 'short_text', 'coding', 'essay'));
+
+alter table public.questions
+  drop constraint if exists questions_word_limits_check;
+alter table public.questions
+  add constraint questions_word_limits_check
+  check (
+    (min_words is null or min_words >= 0)
+    and (max_words is null or max_words > 0)
+    and (min_words is null or max_words is null or min_words <= max_words)
+    and jsonb_typeof(rubric) = 'array'
+  );
+
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+alter table public.questions
+  add constraint questions_correct_answer_check
+  check (
+    case question_type
+      when 'numeric' then correct_answer ~ '^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$'
+      when 'short_text' then btrim(correct_answer) <> ''
+      when 'coding' then true
+      when 'essay' then true
+      else upper(correct_answer) ~ (
+        '^[A-' || chr(64 + greatest(jsonb_array_length(options), 1)) || ']'
+        || case question_type when 'single' then '' else '+' end
+        || '$'
+      )
+    end
+  ) not valid;
+
+-- Students see the word limits; the rubric is for teachers
+grant select (min_words, max_words) on public.questions to anon;
+
+alter table public.responses
+  add column if not exists rubric_scores jsonb,
+  add column if not exists grader_comment text,
+  add column if not exists graded_at timestamptz,
+  add column if not exists graded_by uuid references public.teachers (id) on delete set null;
+
+alter table public.submissions
+  add column if not exists grading_status text;
+
+alter table public.submissions
+  drop constraint if exists submissions_grading_status_check;
+alter table public.submissions
+  add constraint submissions_grading_status_check
+  check (grading_status is null or grading_status in ('needs_grading', 'graded'));
+
+-- Teachers read the attempts at their own exams to mark them
+drop policy if exists "Teachers can view submissions for their exams" on public.submissions;
+create policy "Teachers can view submissions for their exams"
+  on public.submissions for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.exams e
+      where e.id = submissions.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+drop policy if exists "Teachers can view responses for their exams" on public.responses;
+create policy "Teachers can view responses for their exams"
+  on public.responses for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.submissions s
+      join public.exams e on e.id = s.exam_id
+      where s.id = responses.submission_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+drop policy if exists "Teachers can view students who sat their exams" on public.students;
+create policy "Teachers can view students who sat their exams"
+  on public.students for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.submissions s
+      join public.exams e on e.id = s.exam_id
+      where s.student_id = students.id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+drop function if exists public.score_response(public.questions, text, jsonb);
+
+create or replace function public.score_response(
+  p_question public.questions,
+  p_selected_answer text,
+  p_test_results jsonb default null
+)
+returns numeric
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_option_count integer := jsonb_array_length(p_question.options);
+  v_correct text[];
+  v_selected text[];
+  v_hits integer;
+  v_misses integer;
+  v_value numeric;
+  v_expected numeric;
+  v_allowed numeric;
+begin
+  -- Essays are marked by a teacher with grade_essay_response
+  if p_question.question_type = 'essay' then
+    return null;
+  end if;
+
+  -- Each test passes only if its output matches the expected value kept here
+  if p_question.question_type = 'coding' then
+    return round((
+      select count(*)
+      from jsonb_array_elements(public.check_test_results(p_question.test_cases, p_test_results)) result
+      where (result->>'passed')::boolean
+    )::numeric / jsonb_array_length(p_question.test_cases), 4);
+  end if;
+
+  if p_selected_answer is null or btrim(p_selected_answer) = '' then
+    return 0;
+  end if;
+
+  if p_question.question_type = 'numeric' then
+    if btrim(p_selected_answer) !~ '^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$' then
+      return 0;
+    end if;
+    v_value := btrim(p_selected_answer)::numeric;
+    v_expected := p_question.correct_answer::numeric;
+    v_allowed := case p_question.tolerance_mode
+      when 'relative' then abs(v_expected) * p_question.answer_tolerance / 100
+      else p_question.answer_tolerance
+    end;
+    return case when abs(v_value - v_expected) <= v_allowed then 1 else 0 end;
+  end if;
+
+  if p_question.question_type = 'short_text' then
+    return case when exists (
+      select 1
+      from jsonb_array_elements_text(
+        jsonb_build_array(p_question.correct_answer) || p_question.accepted_answers
+      ) accepted
+      where normalize_text_answer(accepted, p_question.case_sensitive)
+          = normalize_text_answer(p_selected_answer, p_question.case_sensitive)
+    ) then 1 else 0 end;
+  end if;
+
+  -- Choice questions: 'n' marks an unanswered question
+  if lower(p_selected_answer) = 'n' then
+    return 0;
+  end if;
+
+  if p_question.question_type = 'single' then
+    return case when lower(p_selected_answer) = lower(p_question.correct_answer) then 1 else 0 end;
+  end if;
+
+  v_correct := array(select distinct c from regexp_split_to_table(upper(p_question.correct_answer), '') c);
+  v_selected := array(select distinct c from regexp_split_to_table(upper(p_selected_answer), '') c);
+  v_hits := cardinality(array(select unnest(v_selected) intersect select unnest(v_correct)));
+  v_misses := cardinality(v_selected) - v_hits;
+
+  return case p_question.scoring_rule
+    when 'proportional' then
+      round((v_hits + (v_option_count - cardinality(v_correct) - v_misses))::numeric / v_option_count, 4)
+    when 'penalty' then
+      greatest(round((v_hits - v_misses)::numeric / cardinality(v_correct), 4), 0)
+    else
+      case when v_hits = cardinality(v_correct) and v_misses = 0 then 1 else 0 end
+  end;
+end;
+$$;
+
+-- Totals the responses once no essay or coding answer is left to mark by hand.
+create or replace function public.finalize_submission_score(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score numeric;
+begin
+  if exists (
+    select 1
+    from public.responses r
+    join public.questions q on q.id = r.question_id
+    where r.submission_id = p_submission_id
+      and q.question_type in ('essay', 'coding')
+      and r.graded_at is null
+  ) then
+    update public.submissions
+    set total_score = null,
+        grading_status = 'needs_grading'
+    where id = p_submission_id;
+    return null;
+  end if;
+
+  select coalesce(sum(score), 0) into v_score
+  from public.responses
+  where submission_id = p_submission_id;
+
+  update public.submissions
+  set total_score = v_score,
+      grading_status = 'graded'
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
+
+revoke execute on function public.finalize_submission_score(uuid) from public, anon, authenticated;
+
+-- Confirmed coding marks are left alone when an attempt is graded again.
+create or replace function public.grade_submission(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  -- Unanswered questions are recorded too: 'n' for choice questions, blank otherwise
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id,
+         sq.question_id,
+         case when q.question_type in ('single', 'multiple') then 'n' else '' end,
+         0
+  from public.submission_questions sq
+  join public.questions q on q.id = sq.question_id
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set score = public.score_response(q, r.selected_answer, r.test_results)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id
+    and q.question_type <> 'essay'
+    and not (q.question_type = 'coding' and r.graded_at is not null);
+
+  -- Nothing to check in a coding answer with no code in it
+  update public.responses r
+  set score = 0,
+      graded_at = now()
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id
+    and q.question_type = 'coding'
+    and r.graded_at is null
+    and coalesce(btrim(r.source_code), '') = '';
+
+  -- Nothing to mark in an essay with no words in it
+  update public.responses r
+  set score = 0,
+      graded_at = now()
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id
+    and q.question_type = 'essay'
+    and r.graded_at is null
+    and btrim(regexp_replace(coalesce(r.selected_answer, ''), '<[^>]*>|&nbsp;', ' ', 'g')) = '';
+
+  update public.responses
+  set is_correct = score = 1
+  where submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  return public.finalize_submission_score(p_submission_id);
+end;
+$$;
+
+-- Marks one essay against its rubric: p_rubric_scores holds the points awarded
+-- for each criterion, in rubric order.
+create or replace function public.grade_essay_response(
+  p_response_id uuid,
+  p_rubric_scores jsonb,
+  p_comment text default null
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_response public.responses%rowtype;
+  v_question public.questions%rowtype;
+  v_teacher_id uuid := public.current_teacher_id();
+  v_available numeric;
+  v_awarded numeric;
+begin
+  select r.* into v_response
+  from public.responses r
+  join public.submissions s on s.id = r.submission_id
+  join public.exams e on e.id = s.exam_id
+  where r.id = p_response_id
+    and e.teacher_id = v_teacher_id;
+
+  if not found then
+    raise exception 'Response % not found', p_response_id
+      using errcode = 'P0002';
+  end if;
+
+  select * into v_question from public.questions where id = v_response.question_id;
+
+  if v_question.question_type <> 'essay' then
+    raise exception 'Only essay responses are marked by hand'
+      using errcode = 'P0001';
+  end if;
+
+  if jsonb_typeof(p_rubric_scores) <> 'array'
+     or jsonb_array_length(p_rubric_scores) <> greatest(jsonb_array_length(v_question.rubric), 1) then
+    raise exception 'Give a score for every rubric criterion'
+      using errcode = 'P0001';
+  end if;
+
+  -- Without a rubric an essay is marked out of 10
+  select coalesce(sum((criterion->>'points')::numeric), 0) into v_available
+  from jsonb_array_elements(v_question.rubric) criterion;
+  if v_available = 0 then
+    v_available := 10;
+  end if;
+
+  select sum(least(greatest(awarded.value::text::numeric, 0),
+                   coalesce((v_question.rubric->(awarded.position::integer - 1)->>'points')::numeric, 10)))
+  into v_awarded
+  from jsonb_array_elements(p_rubric_scores) with ordinality as awarded(value, position);
+
+  perform set_config('app.grading', 'on', true);
+
+  update public.responses
+  set rubric_scores = p_rubric_scores,
+      grader_comment = nullif(btrim(p_comment), ''),
+      score = round(v_awarded / v_available, 4),
+      is_correct = v_awarded = v_available,
+      graded_at = now(),
+      graded_by = v_teacher_id
+  where id = p_response_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  perform public.finalize_submission_score(v_response.submission_id);
+
+  return round(v_awarded / v_available, 4);
+end;
+$$;
+
+revoke execute on function public.grade_essay_response(uuid, jsonb, text) from public, anon;
+grant execute on function public.grade_essay_response(uuid, jsonb, text) to authenticated;
+
+-- Confirms (or corrects) the automatic mark of one coding answer after the
+-- teacher has read the code. p_score is the share of the question earned.
+create or replace function public.confirm_coding_response(
+  p_response_id uuid,
+  p_score numeric,
+  p_comment text default null
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_response public.responses%rowtype;
+  v_teacher_id uuid := public.current_teacher_id();
+begin
+  select r.* into v_response
+  from public.responses r
+  join public.submissions s on s.id = r.submission_id
+  join public.exams e on e.id = s.exam_id
+  join public.questions q on q.id = r.question_id
+  where r.id = p_response_id
+    and e.teacher_id = v_teacher_id
+    and q.question_type = 'coding';
+
+  if not found then
+    raise exception 'Response % not found', p_response_id
+      using errcode = 'P0002';
+  end if;
+
+  if not exists (
+    select 1 from public.submissions
+    where id = v_response.submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Coding answers can only be marked once the attempt is submitted'
+      using errcode = 'P0001';
+  end if;
+
+  if p_score is null or p_score < 0 or p_score > 1 then
+    raise exception 'The score must be between 0 and 1'
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  update public.responses
+  set score = round(p_score, 4),
+      is_correct = p_score = 1,
+      grader_comment = nullif(btrim(p_comment), ''),
+      graded_at = now(),
+      graded_by = v_teacher_id
+  where id = p_response_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  perform public.finalize_submission_score(v_response.submission_id);
+
+  return round(p_score, 4);
+end;
+$$;
+
+revoke execute on function public.confirm_coding_response(uuid, numeric, text) from public, anon;
+grant execute on function public.confirm_coding_response(uuid, numeric, text) to authenticated;
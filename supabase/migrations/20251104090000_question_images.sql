@@ -0,0 +1,36 @@
+-- Images for question stems and options. Question text is Markdown, so an
+-- image is just ![alt](url) pointing at a public object in this bucket.
+-- Teachers upload under a folder named after their teachers.id and can only
+-- add or remove files in their own folder; anyone can read them, which the
+-- exam page needs because students are not signed in.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'question-images',
+  'question-images',
+  true,
+  5242880,
+  array['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml']
+)
+on conflict (id) do update
+set public = excluded.public,
+    file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+drop policy if exists "Teachers can upload question images" on storage.objects;
+create policy "Teachers can upload question images"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'question-images'
+    and (storage.foldername(name))[1] = public.current_teacher_id()::text
+  );
+
+drop policy if exists "Teachers can delete their question images" on storage.objects;
+create policy "Teachers can delete their question images"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'question-images'
+    and (storage.foldername(name))[1] = public.current_teacher_id()::text
+  );
@@ -0,0 +1,112 @@
+-- Weighted marking. Each question is worth `marks` and loses `negative_marks`
+-- for a wrong answer; either left null falls back to the exam's default, so a
+-- +4/-1 paper only needs the exam defaults set. score stays the 0..1 fraction
+-- of the question answered correctly and marks_awarded is what it earned:
+--   score > 0                      -> score * marks
+--   wrong (score = 0) and answered -> -negative_marks
+--   unanswered                     -> 0
+-- Only questions marked right or wrong by the key (choice, numeric and short
+-- text) are penalised; coding and essay answers never lose marks.
+-- total_score is the sum of marks_awarded and max_score the sum of marks over
+-- the questions drawn for the attempt.
+
+alter table public.exams
+  add column if not exists default_marks numeric not null default 1,
+  add column if not exists default_negative_marks numeric not null default 0;
+
+alter table public.exams
+  drop constraint if exists exams_default_marks_check;
+alter table public.exams
+  add constraint exams_default_marks_check
+  check (default_marks > 0 and default_negative_marks >= 0);
+
+alter table public.questions
+  add column if not exists marks numeric,
+  add column if not exists negative_marks numeric;
+
+alter table public.questions
+  drop constraint if exists questions_marks_check;
+alter table public.questions
+  add constraint questions_marks_check
+  check ((marks is null or marks > 0) and (negative_marks is null or negative_marks >= 0));
+
+-- Students see what each question is worth
+grant select (marks, negative_marks) on public.questions to anon;
+
+alter table public.responses
+  add column if not exists marks_awarded numeric;
+
+alter table public.submissions
+  add column if not exists max_score numeric;
+
+-- Weighs every scored response, then totals them once nothing is left to mark by hand.
+create or replace function public.finalize_submission_score(p_submission_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_score numeric;
+  v_max_score numeric;
+begin
+  select coalesce(sum(coalesce(q.marks, e.default_marks)), 0) into v_max_score
+  from public.submission_questions sq
+  join public.questions q on q.id = sq.question_id
+  join public.exams e on e.id = q.exam_id
+  where sq.submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'on', true);
+
+  update public.responses r
+  set marks_awarded = case
+    when r.score is null then null
+    when r.score > 0 then round(r.score * coalesce(q.marks, e.default_marks), 4)
+    when q.question_type in ('coding', 'essay') then 0
+    when coalesce(btrim(r.selected_answer), '') in ('', 'n') then 0
+    else -coalesce(q.negative_marks, e.default_negative_marks)
+  end
+  from public.questions q
+  join public.exams e on e.id = q.exam_id
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  if exists (
+    select 1
+    from public.responses r
+    join public.questions q on q.id = r.question_id
+    where r.submission_id = p_submission_id
+      and q.question_type in ('essay', 'coding')
+      and r.graded_at is null
+  ) then
+    update public.submissions
+    set total_score = null,
+        max_score = v_max_score,
+        grading_status = 'needs_grading'
+    where id = p_submission_id;
+    return null;
+  end if;
+
+  select coalesce(sum(marks_awarded), 0) into v_score
+  from public.responses
+  where submission_id = p_submission_id;
+
+  update public.submissions
+  set total_score = v_score,
+      max_score = v_max_score,
+      grading_status = 'graded'
+  where id = p_submission_id;
+
+  return v_score;
+end;
+$$;
+
+revoke execute on function public.finalize_submission_score(uuid) from public, anon, authenticated;
+
+-- Existing results were one point per question with no penalty, which is
+-- exactly what the defaults give, so re-totalling them changes no scores.
+select public.finalize_submission_score(id)
+from public.submissions
+where submitted_at is not null;
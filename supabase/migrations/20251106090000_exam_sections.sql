@@ -0,0 +1,250 @@
+-- Exam sections. An exam with sections is sat one section at a time: each has
+-- its own time limit, and once a student moves on (or the section's time runs
+-- out) they cannot go back. Questions without a section belong to the first
+-- one. The exam's own duration is ignored when it has sections; the attempt's
+-- deadline is the sum of the section durations.
+--
+-- The current section and its deadline live on the submission and only move
+-- forward through advance_submission_section(); students cannot update them.
+
+create table if not exists public.exam_sections (
+  id uuid primary key default gen_random_uuid(),
+  exam_id uuid not null references public.exams (id) on delete cascade,
+  title text not null,
+  instructions text not null default '',
+  duration_minutes integer not null check (duration_minutes > 0),
+  section_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exam_sections_exam_idx on public.exam_sections (exam_id, section_order);
+
+alter table public.exam_sections enable row level security;
+
+drop policy if exists "Anyone can read exam sections" on public.exam_sections;
+create policy "Anyone can read exam sections"
+  on public.exam_sections for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Teachers can manage sections of their own exams" on public.exam_sections;
+create policy "Teachers can manage sections of their own exams"
+  on public.exam_sections for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.exams e
+      where e.id = exam_sections.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.exams e
+      where e.id = exam_sections.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+grant select on public.exam_sections to anon;
+grant select, insert, update, delete on public.exam_sections to authenticated;
+
+alter table public.questions
+  add column if not exists section_id uuid references public.exam_sections (id) on delete set null;
+
+grant select (section_id) on public.questions to anon;
+
+alter table public.submissions
+  add column if not exists current_section_id uuid references public.exam_sections (id) on delete set null,
+  add column if not exists section_deadline_at timestamptz;
+
+-- The section a question is sat in: its own, or the exam's first section
+create or replace function public.question_section_id(p_question_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    q.section_id,
+    (
+      select s.id from public.exam_sections s
+      where s.exam_id = q.exam_id
+      order by s.section_order, s.created_at
+      limit 1
+    )
+  )
+  from public.questions q
+  where q.id = p_question_id
+$$;
+
+create or replace function public.set_submission_deadline()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exam public.exams%rowtype;
+  v_first_section public.exam_sections%rowtype;
+  v_section_minutes integer;
+begin
+  select * into v_exam from public.exams where id = new.exam_id;
+
+  select * into v_first_section
+  from public.exam_sections
+  where exam_id = new.exam_id
+  order by section_order, created_at
+  limit 1;
+
+  select sum(duration_minutes) into v_section_minutes
+  from public.exam_sections
+  where exam_id = new.exam_id;
+
+  new.started_at := now();
+  new.deadline_at := now() + make_interval(mins => coalesce(v_section_minutes, v_exam.duration_minutes, 60));
+  if v_exam.closes_at is not null and v_exam.closes_at < new.deadline_at then
+    new.deadline_at := v_exam.closes_at;
+  end if;
+
+  if v_first_section.id is not null then
+    new.current_section_id := v_first_section.id;
+    new.section_deadline_at := least(now() + make_interval(mins => v_first_section.duration_minutes), new.deadline_at);
+  else
+    new.current_section_id := null;
+    new.section_deadline_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Closes the section the student is in and opens the next one with a fresh
+-- timer. p_from_section_id makes the call safe to repeat: if the student has
+-- already left that section (the timer and the button can race) nothing moves.
+create or replace function public.advance_submission_section(
+  p_submission_id uuid,
+  p_from_section_id uuid
+)
+returns table (current_section_id uuid, section_deadline_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_submission public.submissions%rowtype;
+  v_current public.exam_sections%rowtype;
+  v_next public.exam_sections%rowtype;
+begin
+  select * into v_submission
+  from public.submissions s
+  where s.id = p_submission_id
+  for update;
+
+  if not found then
+    raise exception 'Submission % not found', p_submission_id
+      using errcode = 'P0002';
+  end if;
+
+  if v_submission.submitted_at is null
+     and v_submission.current_section_id is not distinct from p_from_section_id then
+    select * into v_current from public.exam_sections where id = v_submission.current_section_id;
+
+    select * into v_next
+    from public.exam_sections s
+    where s.exam_id = v_submission.exam_id
+      and (s.section_order, s.created_at) > (v_current.section_order, v_current.created_at)
+    order by s.section_order, s.created_at
+    limit 1;
+
+    if v_next.id is not null then
+      update public.submissions s
+      set current_section_id = v_next.id,
+          section_deadline_at = least(now() + make_interval(mins => v_next.duration_minutes), v_submission.deadline_at)
+      where s.id = p_submission_id
+      returning * into v_submission;
+    end if;
+  end if;
+
+  return query select v_submission.current_section_id, v_submission.section_deadline_at;
+end;
+$$;
+
+grant execute on function public.advance_submission_section(uuid, uuid) to anon, authenticated;
+
+-- Lets the client line its countdowns up with the database clock.
+drop function if exists public.get_submission_clock(uuid);
+create or replace function public.get_submission_clock(p_submission_id uuid)
+returns table (
+  started_at timestamptz,
+  deadline_at timestamptz,
+  current_section_id uuid,
+  section_deadline_at timestamptz,
+  server_now timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.started_at, s.deadline_at, s.current_section_id, s.section_deadline_at, now()
+  from public.submissions s
+  where s.id = p_submission_id
+$$;
+
+grant execute on function public.get_submission_clock(uuid) to anon, authenticated;
+
+-- A student may only answer the questions drawn for them, and only while the
+-- section those questions are in is open.
+create or replace function public.guard_response_write()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_submission public.submissions%rowtype;
+begin
+  -- grade_submission itself updates is_correct on submitted rows
+  if current_setting('app.grading', true) = 'on' then
+    return new;
+  end if;
+
+  select * into v_submission from public.submissions where id = new.submission_id;
+
+  if v_submission.submitted_at is not null then
+    raise exception 'Submission % has already been submitted', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  if v_submission.deadline_at is not null
+     and now() > v_submission.deadline_at + interval '5 seconds' then
+    raise exception 'Time is up for submission %', new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  if not exists (
+    select 1 from public.submission_questions sq
+    where sq.submission_id = new.submission_id
+      and sq.question_id = new.question_id
+  ) then
+    raise exception 'Question % is not part of submission %', new.question_id, new.submission_id
+      using errcode = 'P0001';
+  end if;
+
+  if v_submission.current_section_id is not null then
+    if public.question_section_id(new.question_id) is distinct from v_submission.current_section_id then
+      raise exception 'Question % is in a section that is not open', new.question_id
+        using errcode = 'P0001';
+    end if;
+
+    if now() > v_submission.section_deadline_at + interval '5 seconds' then
+      raise exception 'Time is up for this section of submission %', new.submission_id
+        using errcode = 'P0001';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
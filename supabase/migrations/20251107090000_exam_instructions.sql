@@ -0,0 +1,105 @@
+-- Pre-exam instructions and consent. Teachers write instructions (Markdown)
+-- for each exam; students read them and tick a consent box before starting.
+-- Starting an attempt requires consented_at: whatever the browser sends is
+-- replaced with the database time, and the instructions the student agreed to
+-- are copied onto the submission so later edits cannot change the record.
+
+alter table public.exams
+  add column if not exists instructions text not null default '';
+
+alter table public.submissions
+  add column if not exists consented_at timestamptz,
+  add column if not exists consented_instructions text;
+
+grant insert (consented_at) on public.submissions to anon;
+
+create or replace function public.record_submission_consent()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.consented_at is null then
+    raise exception 'The exam instructions must be accepted before the exam starts'
+      using errcode = 'P0001';
+  end if;
+
+  new.consented_at := now();
+  select instructions into new.consented_instructions
+  from public.exams
+  where id = new.exam_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_submission_consent on public.submissions;
+create trigger record_submission_consent
+  before insert on public.submissions
+  for each row execute function public.record_submission_consent();
+
+-- As before, but the consent record can no longer be changed once written
+create or replace function public.stamp_submission()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.submitted_at is not null then
+    new.submitted_at := old.submitted_at;
+    new.time_taken_minutes := old.time_taken_minutes;
+    new.status := old.status;
+  elsif new.submitted_at is not null then
+    -- Anything arriving well after the deadline was closed by the server, not the student
+    if old.deadline_at is not null and now() > old.deadline_at + interval '5 seconds' then
+      new.status := 'expired';
+    else
+      new.status := 'submitted';
+    end if;
+    new.submitted_at := least(now(), coalesce(old.deadline_at, now()));
+    new.time_taken_minutes := ceil(extract(epoch from (new.submitted_at - old.started_at)) / 60);
+  else
+    new.status := old.status;
+  end if;
+
+  new.started_at := old.started_at;
+  new.deadline_at := old.deadline_at;
+  new.consented_at := old.consented_at;
+  new.consented_instructions := old.consented_instructions;
+  return new;
+end;
+$$;
+
+-- How many questions each attempt is given, for the instructions screen. It
+-- follows the same draw rules as draw_submission_questions, without letting
+-- students read the pool itself.
+create or replace function public.get_exam_question_count(p_exam_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when jsonb_array_length(e.draw_rules) > 0 then (
+      select coalesce(sum(least(
+        greatest((r->>'count')::integer, 0),
+        (select count(*) from public.questions q
+         where q.exam_id = e.id
+           and coalesce(q.topic_tag, '') = coalesce(r->>'topic_tag', ''))
+      )), 0)::integer
+      from jsonb_array_elements(e.draw_rules) r
+    )
+    else (
+      select least(count(*), coalesce(e.draw_count, count(*)))::integer
+      from public.questions q
+      where q.exam_id = e.id
+    )
+  end
+  from public.exams e
+  where e.id = p_exam_id;
+$$;
+
+grant execute on function public.get_exam_question_count(uuid) to anon, authenticated;
@@ -0,0 +1,334 @@
+-- Results for students. Nothing is shown until the teacher releases an exam's
+-- results; the answer review (each question with the student's answer, the
+-- key and an explanation) is a second switch, since many teachers reuse
+-- questions. Students look up a result with the exam's access code, their roll
+-- number and, as the check that it is really them, the email they registered
+-- with. Both lookups are functions because anon can read neither the key nor
+-- other students' submissions.
+--
+-- Scores stay private until the teacher releases them, and a student's email
+-- stays private for good: it is what proves a student's identity when they
+-- look up a released result. Anon loses table-wide reads on submissions and
+-- students; the attempt columns the exam screen needs are granted back, and
+-- registration goes through a function that checks the email on file.
+
+alter table public.exams
+  add column if not exists results_released boolean not null default false,
+  add column if not exists answer_review_released boolean not null default false;
+
+-- Not granted to anon: explanations are only handed out by the review below
+alter table public.questions
+  add column if not exists explanation text not null default '';
+
+-- The student's latest finished attempt at a released exam, or an error that
+-- does not reveal which of the details was wrong.
+create or replace function public.find_released_submission(
+  p_access_code text,
+  p_roll_number text,
+  p_email text
+)
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_submission_id uuid;
+begin
+  select s.id into v_submission_id
+  from public.submissions s
+  join public.exams e on e.id = s.exam_id
+  join public.students st on st.id = s.student_id
+  where e.access_code = upper(btrim(p_access_code))
+    and e.results_released
+    and st.roll_number = btrim(p_roll_number)
+    and lower(btrim(st.email)) = lower(btrim(p_email))
+    and s.submitted_at is not null
+  order by s.submitted_at desc
+  limit 1;
+
+  if v_submission_id is null then
+    raise exception 'No released result matches these details'
+      using errcode = 'P0001';
+  end if;
+
+  return v_submission_id;
+end;
+$$;
+
+revoke execute on function public.find_released_submission(text, text, text) from public, anon, authenticated;
+
+-- Score with rank and percentile among the exam's fully graded attempts. Rank
+-- and percentile are null while the student's own essays are still unmarked.
+create or replace function public.get_student_result(
+  p_access_code text,
+  p_roll_number text,
+  p_email text
+)
+returns table (
+  exam_name text,
+  student_name text,
+  status text,
+  grading_status text,
+  submitted_at timestamptz,
+  total_score numeric,
+  max_score numeric,
+  rank integer,
+  candidate_count integer,
+  percentile numeric,
+  answer_review_released boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_submission_id uuid := public.find_released_submission(p_access_code, p_roll_number, p_email);
+begin
+  return query
+  with ranked as (
+    select s.id,
+           rank() over (order by s.total_score desc)::integer as score_rank,
+           count(*) over ()::integer as candidates,
+           -- Share of candidates who scored the same or lower
+           round((cume_dist() over (order by s.total_score) * 100)::numeric, 1) as score_percentile
+    from public.submissions s
+    where s.exam_id = (select exam_id from public.submissions where id = v_submission_id)
+      and s.submitted_at is not null
+      and s.grading_status = 'graded'
+  )
+  select e.name,
+         st.name,
+         s.status,
+         s.grading_status,
+         s.submitted_at,
+         s.total_score,
+         s.max_score,
+         r.score_rank,
+         r.candidates,
+         r.score_percentile,
+         e.answer_review_released
+  from public.submissions s
+  join public.exams e on e.id = s.exam_id
+  join public.students st on st.id = s.student_id
+  left join ranked r on r.id = s.id
+  where s.id = v_submission_id;
+end;
+$$;
+
+grant execute on function public.get_student_result(text, text, text) to anon, authenticated;
+
+-- The questions of the attempt in the order they were drawn, with the
+-- student's answer, the key and the teacher's explanation.
+create or replace function public.get_student_answer_review(
+  p_access_code text,
+  p_roll_number text,
+  p_email text
+)
+returns table (
+  question_id uuid,
+  question_text text,
+  question_type text,
+  options jsonb,
+  correct_answer text,
+  accepted_answers jsonb,
+  explanation text,
+  selected_answer text,
+  source_code text,
+  test_results jsonb,
+  score numeric,
+  marks_awarded numeric,
+  marks numeric,
+  grader_comment text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_submission_id uuid := public.find_released_submission(p_access_code, p_roll_number, p_email);
+begin
+  if not exists (
+    select 1
+    from public.submissions s
+    join public.exams e on e.id = s.exam_id
+    where s.id = v_submission_id
+      and e.answer_review_released
+  ) then
+    raise exception 'The answer review for this exam has not been released'
+      using errcode = 'P0001';
+  end if;
+
+  return query
+  select q.id,
+         q.question_text,
+         q.question_type,
+         q.options,
+         q.correct_answer,
+         q.accepted_answers,
+         q.explanation,
+         r.selected_answer,
+         r.source_code,
+         case when q.question_type = 'coding'
+              then public.check_test_results(q.test_cases, r.test_results)
+              else r.test_results
+         end,
+         r.score,
+         r.marks_awarded,
+         coalesce(q.marks, e.default_marks),
+         r.grader_comment
+  from public.submission_questions sq
+  join public.questions q on q.id = sq.question_id
+  join public.exams e on e.id = q.exam_id
+  left join public.responses r on r.submission_id = sq.submission_id and r.question_id = sq.question_id
+  where sq.submission_id = v_submission_id
+  order by sq.position;
+end;
+$$;
+
+grant execute on function public.get_student_answer_review(text, text, text) to anon, authenticated;
+
+revoke select on public.submissions from anon;
+grant select (
+  id,
+  student_id,
+  exam_id,
+  status,
+  started_at,
+  submitted_at,
+  deadline_at,
+  section_deadline_at,
+  current_section_id,
+  current_question_index,
+  shuffle_seed,
+  violation_count,
+  total_questions,
+  time_taken_minutes,
+  consented_at,
+  consented_instructions
+) on public.submissions to anon;
+
+revoke select, insert, update, delete on public.students from anon;
+
+-- Registers a new student, or returns the existing one for this roll number if
+-- the email matches the one they registered with.
+create or replace function public.register_student(
+  p_name text,
+  p_email text,
+  p_roll_number text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_student public.students%rowtype;
+begin
+  if coalesce(btrim(p_name), '') = '' or coalesce(btrim(p_email), '') = '' or coalesce(btrim(p_roll_number), '') = '' then
+    raise exception 'Name, email and roll number are required'
+      using errcode = 'P0001';
+  end if;
+
+  select * into v_student
+  from public.students
+  where roll_number = btrim(p_roll_number);
+
+  if found then
+    if lower(btrim(v_student.email)) <> lower(btrim(p_email)) then
+      raise exception 'Roll number % is registered with a different email', btrim(p_roll_number)
+        using errcode = '28000';
+    end if;
+
+    return v_student.id;
+  end if;
+
+  insert into public.students (name, email, roll_number)
+  values (btrim(p_name), btrim(p_email), btrim(p_roll_number))
+  returning id into v_student.id;
+
+  return v_student.id;
+end;
+$$;
+
+revoke execute on function public.register_student(text, text, text) from public;
+grant execute on function public.register_student(text, text, text) to anon, authenticated;
+
+-- Grading used to hand the total back to whoever called it, which let a
+-- student see their score before release. The return type changes, so the
+-- function has to be dropped first.
+drop function if exists public.grade_submission(uuid);
+
+create or replace function public.grade_submission(p_submission_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.submissions
+    where id = p_submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Submission % has not been submitted', p_submission_id
+      using errcode = 'P0001';
+  end if;
+
+  perform set_config('app.grading', 'on', true);
+
+  -- Unanswered questions are recorded too: 'n' for choice questions, blank otherwise
+  insert into public.responses (submission_id, question_id, selected_answer, time_taken_seconds)
+  select sq.submission_id,
+         sq.question_id,
+         case when q.question_type in ('single', 'multiple') then 'n' else '' end,
+         0
+  from public.submission_questions sq
+  join public.questions q on q.id = sq.question_id
+  where sq.submission_id = p_submission_id
+  on conflict (submission_id, question_id) do nothing;
+
+  update public.responses r
+  set score = public.score_response(q, r.selected_answer, r.test_results)
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id
+    and q.question_type <> 'essay'
+    and not (q.question_type = 'coding' and r.graded_at is not null);
+
+  -- Nothing to check in a coding answer with no code in it
+  update public.responses r
+  set score = 0,
+      graded_at = now()
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id
+    and q.question_type = 'coding'
+    and r.graded_at is null
+    and coalesce(btrim(r.source_code), '') = '';
+
+  -- Nothing to mark in an essay with no words in it
+  update public.responses r
+  set score = 0,
+      graded_at = now()
+  from public.questions q
+  where q.id = r.question_id
+    and r.submission_id = p_submission_id
+    and q.question_type = 'essay'
+    and r.graded_at is null
+    and btrim(regexp_replace(coalesce(r.selected_answer, ''), '<[^>]*>|&nbsp;', ' ', 'g')) = '';
+
+  update public.responses
+  set is_correct = score = 1
+  where submission_id = p_submission_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  perform public.finalize_submission_score(p_submission_id);
+end;
+$$;
+
+grant execute on function public.grade_submission(uuid) to anon, authenticated;
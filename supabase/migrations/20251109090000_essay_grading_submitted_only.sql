@@ -0,0 +1,90 @@
+-- Essays are marked only once the attempt is handed in. Marking an essay in an
+-- attempt that is still running would set grading_status to 'graded' while the
+-- student can still change the answer.
+
+-- Marks one essay against its rubric: p_rubric_scores holds the points awarded
+-- for each criterion, in rubric order.
+create or replace function public.grade_essay_response(
+  p_response_id uuid,
+  p_rubric_scores jsonb,
+  p_comment text default null
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_response public.responses%rowtype;
+  v_question public.questions%rowtype;
+  v_teacher_id uuid := public.current_teacher_id();
+  v_available numeric;
+  v_awarded numeric;
+begin
+  select r.* into v_response
+  from public.responses r
+  join public.submissions s on s.id = r.submission_id
+  join public.exams e on e.id = s.exam_id
+  where r.id = p_response_id
+    and e.teacher_id = v_teacher_id;
+
+  if not found then
+    raise exception 'Response % not found', p_response_id
+      using errcode = 'P0002';
+  end if;
+
+  if not exists (
+    select 1 from public.submissions
+    where id = v_response.submission_id
+      and submitted_at is not null
+  ) then
+    raise exception 'Essays can only be marked once the attempt is submitted'
+      using errcode = 'P0001';
+  end if;
+
+  select * into v_question from public.questions where id = v_response.question_id;
+
+  if v_question.question_type <> 'essay' then
+    raise exception 'Only essay responses are marked by hand'
+      using errcode = 'P0001';
+  end if;
+
+  if jsonb_typeof(p_rubric_scores) <> 'array'
+     or jsonb_array_length(p_rubric_scores) <> greatest(jsonb_array_length(v_question.rubric), 1) then
+    raise exception 'Give a score for every rubric criterion'
+      using errcode = 'P0001';
+  end if;
+
+  -- Without a rubric an essay is marked out of 10
+  select coalesce(sum((criterion->>'points')::numeric), 0) into v_available
+  from jsonb_array_elements(v_question.rubric) criterion;
+  if v_available = 0 then
+    v_available := 10;
+  end if;
+
+  select sum(least(greatest(awarded.value::text::numeric, 0),
+                   coalesce((v_question.rubric->(awarded.position::integer - 1)->>'points')::numeric, 10)))
+  into v_awarded
+  from jsonb_array_elements(p_rubric_scores) with ordinality as awarded(value, position);
+
+  perform set_config('app.grading', 'on', true);
+
+  update public.responses
+  set rubric_scores = p_rubric_scores,
+      grader_comment = nullif(btrim(p_comment), ''),
+      score = round(v_awarded / v_available, 4),
+      is_correct = v_awarded = v_available,
+      graded_at = now(),
+      graded_by = v_teacher_id
+  where id = p_response_id;
+
+  perform set_config('app.grading', 'off', true);
+
+  perform public.finalize_submission_score(v_response.submission_id);
+
+  return round(v_awarded / v_available, 4);
+end;
+$$;
+
+revoke execute on function public.grade_essay_response(uuid, jsonb, text) from public, anon;
+grant execute on function public.grade_essay_response(uuid, jsonb, text) to authenticated;
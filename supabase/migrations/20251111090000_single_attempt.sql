@@ -0,0 +1,31 @@
+-- One attempt per student per exam. The registration screen already turns
+-- students away once they have submitted, but a reload with a stale session
+-- (or a direct API call) could insert a fresh attempt. A trigger rather than a
+-- unique index, so existing duplicate attempts do not fail the migration.
+create or replace function public.guard_single_attempt()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serialise concurrent starts by the same student on the same exam
+  perform pg_advisory_xact_lock(hashtext(new.student_id::text || ':' || new.exam_id::text));
+
+  if exists (
+    select 1 from public.submissions
+    where student_id = new.student_id
+      and exam_id = new.exam_id
+  ) then
+    raise exception 'Student % has already attempted exam %', new.student_id, new.exam_id
+      using errcode = '23505';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_single_attempt on public.submissions;
+create trigger guard_single_attempt
+  before insert on public.submissions
+  for each row execute function public.guard_single_attempt();
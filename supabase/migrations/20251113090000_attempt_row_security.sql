@@ -0,0 +1,131 @@
+-- Row security for attempts. The column grants that keep students from writing
+-- their own scores only ever covered anon, and anyone can sign up for an
+-- account, so a signed-in user could still write is_correct, score,
+-- marks_awarded or total_score, or read every student's scores and email.
+-- Signed-in users now get the same write columns as students, and row level
+-- security limits them to the attempts at exams they own. Students stay
+-- anonymous and identify an attempt by its id; what they can change is still
+-- decided by the column grants and the triggers on these tables.
+
+alter table public.submissions enable row level security;
+alter table public.responses enable row level security;
+alter table public.students enable row level security;
+
+revoke insert, update, delete on public.responses from authenticated;
+grant insert (submission_id, question_id, selected_answer, time_taken_seconds, marked_for_review, source_code, test_results)
+  on public.responses to authenticated;
+grant update (selected_answer, time_taken_seconds, marked_for_review, source_code, test_results)
+  on public.responses to authenticated;
+
+revoke insert, update, delete on public.submissions from authenticated;
+grant insert (student_id, exam_id, total_questions, time_taken_minutes, consented_at)
+  on public.submissions to authenticated;
+grant update (submitted_at, time_taken_minutes, current_question_index)
+  on public.submissions to authenticated;
+
+-- Students register through register_student()
+revoke insert, update, delete on public.students from authenticated;
+
+drop policy if exists "Students can read attempts" on public.submissions;
+create policy "Students can read attempts"
+  on public.submissions for select
+  to anon
+  using (true);
+
+drop policy if exists "Students can start attempts" on public.submissions;
+create policy "Students can start attempts"
+  on public.submissions for insert
+  to anon
+  with check (true);
+
+drop policy if exists "Students can update attempts" on public.submissions;
+create policy "Students can update attempts"
+  on public.submissions for update
+  to anon
+  using (true)
+  with check (true);
+
+drop policy if exists "Students can read answers" on public.responses;
+create policy "Students can read answers"
+  on public.responses for select
+  to anon
+  using (true);
+
+drop policy if exists "Students can record answers" on public.responses;
+create policy "Students can record answers"
+  on public.responses for insert
+  to anon
+  with check (true);
+
+drop policy if exists "Students can change answers" on public.responses;
+create policy "Students can change answers"
+  on public.responses for update
+  to anon
+  using (true)
+  with check (true);
+
+-- Teachers sitting their own exam while signed in, e.g. to try it out
+drop policy if exists "Teachers can sit their own exams" on public.submissions;
+create policy "Teachers can sit their own exams"
+  on public.submissions for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.exams e
+      where e.id = submissions.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+drop policy if exists "Teachers can update attempts at their own exams" on public.submissions;
+create policy "Teachers can update attempts at their own exams"
+  on public.submissions for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.exams e
+      where e.id = submissions.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.exams e
+      where e.id = submissions.exam_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+drop policy if exists "Teachers can record answers in their own exams" on public.responses;
+create policy "Teachers can record answers in their own exams"
+  on public.responses for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.submissions s
+      join public.exams e on e.id = s.exam_id
+      where s.id = responses.submission_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );
+
+drop policy if exists "Teachers can change answers in their own exams" on public.responses;
+create policy "Teachers can change answers in their own exams"
+  on public.responses for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.submissions s
+      join public.exams e on e.id = s.exam_id
+      where s.id = responses.submission_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.submissions s
+      join public.exams e on e.id = s.exam_id
+      where s.id = responses.submission_id
+        and e.teacher_id = public.current_teacher_id()
+    )
+  );